@@ -1,14 +1,19 @@
 import * as THREE from 'three';
 import { ChunkManager } from '../world/ChunkManager';
+import { ChunkStreamer } from '../world/ChunkStreamer';
+import { BlockPredictor } from '../world/BlockPredictor';
 import { PlayerController } from '../player/PlayerController';
 import { BlockInteraction } from '../player/BlockInteraction';
 import { HUD } from '../ui/HUD';
 import { SkySystem } from '../rendering/SkySystem';
 import { BlockParticles } from '../rendering/BlockParticles';
-import { NPCRenderer } from '../entities/NPCRenderer';
+import { ClaimOverlay } from '../rendering/ClaimOverlay';
+import { NPCRenderer, type VisibleNpc } from '../entities/NPCRenderer';
 import { SoundManager } from './SoundManager';
 import { type GameSettings, loadSettings } from './Settings';
-import type { NpcUpdateMessage } from '../../shared/Protocol';
+import type { ClaimsMessage, NpcInfoMessage, WorldInfoMessage } from '../../shared/Protocol';
+import type { EntityStates } from '../../shared/SnapshotCodec';
+import type { NetworkClient } from '../network/NetworkClient';
 
 const SKY_COLOR = 0x87CEEB;
 const FOG_NEAR = 100;
@@ -20,17 +25,25 @@ export class Engine {
   camera!: THREE.PerspectiveCamera;
   scene!: THREE.Scene;
   chunkManager!: ChunkManager;
+  blockPredictor: BlockPredictor | null = null; // multiplayer only
   playerController!: PlayerController;
   blockInteraction!: BlockInteraction;
   hud!: HUD;
   private skySystem!: SkySystem;
   private blockParticles!: BlockParticles;
   private npcRenderer!: NPCRenderer;
+  private claimOverlay!: ClaimOverlay;
   soundManager!: SoundManager;
-  private lastNpcData: NpcUpdateMessage['npcs'] = [];
+  seed = 0;
+  private lastNpcStates: EntityStates = new Map();
   private lastTime = 0;
 
-  init(): void {
+  /**
+   * The seed must match the world being played: the room's seed in multiplayer.
+   * Pass the network client in multiplayer so chunks are streamed from the server.
+   */
+  init(seed: number, network?: NetworkClient): void {
+    this.seed = seed;
     const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
 
     // Renderer
@@ -69,14 +82,20 @@ export class Engine {
     // NPC rendering
     this.npcRenderer = new NPCRenderer(this.scene);
 
+    // Protected region outlines (multiplayer)
+    this.claimOverlay = new ClaimOverlay(this.scene);
+
     // Sound
     this.soundManager = new SoundManager();
     const settings = loadSettings();
     this.soundManager.volume = settings.volume;
 
     // Subsystems
-    const seed = 12345;
-    this.chunkManager = new ChunkManager(this.scene, seed);
+    const streamer = network ? new ChunkStreamer(network) : null;
+    this.chunkManager = new ChunkManager(this.scene, seed, streamer);
+    if (network) {
+      this.blockPredictor = new BlockPredictor(network, this.chunkManager);
+    }
     this.playerController = new PlayerController(this.camera, canvas);
     this.blockInteraction = new BlockInteraction(this.scene, this.playerController);
     this.blockInteraction.onBlockBreak = (x, y, z, blockType) => {
@@ -89,6 +108,7 @@ export class Engine {
     this.hud = new HUD((blockType) => {
       this.blockInteraction.selectedBlockType = blockType;
     });
+    this.hud.setSeed(seed);
 
     // Resize handler
     window.addEventListener('resize', () => {
@@ -117,6 +137,7 @@ export class Engine {
     this.playerController.update(dt, this.chunkManager);
     this.skySystem.update(dt);
     this.blockParticles.update(dt);
+    this.blockPredictor?.update();
 
     const pos = this.playerController.getPosition();
     this.chunkManager.update(pos.x, pos.z);
@@ -130,14 +151,44 @@ export class Engine {
       this.hud.hide();
     }
 
-    this.npcRenderer.update(this.lastNpcData, dt);
+    this.npcRenderer.update(this.lastNpcStates, dt);
 
     this.hud.updateFps();
     this.hud.updateCoords(pos.x, pos.y, pos.z);
   }
 
-  handleNpcUpdate(data: NpcUpdateMessage): void {
-    this.lastNpcData = data.npcs;
+  /** The NPCs in view, with what each is doing. */
+  getVisibleNpcs(): VisibleNpc[] {
+    return this.npcRenderer.getVisibleNpcs();
+  }
+
+  handleNpcInfo(data: NpcInfoMessage): void {
+    this.npcRenderer.addProfiles(data.npcs);
+  }
+
+  handleNpcSnapshot(states: EntityStates): void {
+    this.lastNpcStates = states;
+  }
+
+  /** Re-request the world around the player after a reconnect, since changes made meanwhile were missed. */
+  resyncWorld(): void {
+    this.chunkManager.resync();
+  }
+
+  handleClaims(data: ClaimsMessage): void {
+    this.claimOverlay.setClaims(data.claims);
+  }
+
+  handleWorldInfo(data: WorldInfoMessage): void {
+    this.skySystem.setServerTime(data.dayTime, data.timeRunning);
+  }
+
+  getDayTime(): number {
+    return this.skySystem.getTime();
+  }
+
+  setDayTime(dayTime: number): void {
+    this.skySystem.setTime(dayTime);
   }
 
   applySettings(settings: GameSettings): void {
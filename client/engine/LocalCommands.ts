@@ -0,0 +1,41 @@
+import { CommandError, type CommandContext } from '../../shared/Commands';
+import { HOTBAR_BLOCKS } from '../../shared/BlockTypes';
+import type { Engine } from './Engine';
+
+/** Runs chat commands against the local world in solo games, where the player is host. */
+export function createLocalCommandContext(engine: Engine, playerName: string, reply: (message: string) => void): CommandContext {
+  const self = () => ({ id: 'local', name: playerName, role: 'host' as const, ...engine.playerController.getPosition() });
+  const needsRoom = (): never => {
+    throw new CommandError('Only available in multiplayer rooms');
+  };
+
+  return {
+    get sender() {
+      return self();
+    },
+    reply,
+    getPlayers: () => [self()],
+    getSeed: () => engine.seed,
+    getDayTime: () => engine.getDayTime(),
+    setDayTime: (dayTime) => engine.setDayTime(dayTime),
+    teleport: (_player, x, y, z) => {
+      const { rx, ry } = engine.playerController.getRotation();
+      engine.playerController.setSpawn(x, y, z, rx, ry);
+    },
+    give: (_player, block) => engine.hud.selectSlot(HOTBAR_BLOCKS.indexOf(block)),
+    whisper: needsRoom,
+    spawnNpc: needsRoom,
+    save: () => {
+      throw new CommandError('Solo worlds are not saved');
+    },
+    getTickStats: needsRoom,
+    moderate: needsRoom,
+    getClaims: () => [],
+    createClaim: needsRoom,
+    removeClaim: needsRoom,
+    setClaimMember: needsRoom,
+    setClaimFlag: needsRoom,
+    getEdits: needsRoom,
+    rollback: needsRoom,
+  };
+}
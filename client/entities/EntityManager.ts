@@ -1,20 +1,24 @@
 import * as THREE from 'three';
 import { RemotePlayer } from './RemotePlayer';
+import type { PlayerRole } from '../../shared/Protocol';
+import type { EntityStates } from '../../shared/SnapshotCodec';
 
 export class EntityManager {
   private players: Map<string, RemotePlayer> = new Map();
+  private byEntityId: Map<number, RemotePlayer> = new Map();
   private scene: THREE.Scene;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
   }
 
-  addPlayer(id: string, name: string, x: number, y: number, z: number): RemotePlayer {
+  addPlayer(id: string, entityId: number, name: string, x: number, y: number, z: number, role?: PlayerRole): RemotePlayer {
     // Remove existing player with same id if any
     this.removePlayer(id);
 
-    const player = new RemotePlayer(id, name, x, y, z);
+    const player = new RemotePlayer(id, entityId, name, x, y, z, role);
     this.players.set(id, player);
+    this.byEntityId.set(entityId, player);
     this.scene.add(player.group);
     return player;
   }
@@ -25,20 +29,38 @@ export class EntityManager {
       this.scene.remove(player.group);
       player.dispose();
       this.players.delete(id);
+      this.byEntityId.delete(player.entityId);
     }
   }
 
-  updatePlayer(id: string, x: number, y: number, z: number, rx: number, ry: number): void {
-    const player = this.players.get(id);
-    if (player) {
-      player.setTarget(x, y, z, rx, ry);
+  /** Move the players in a snapshot; the ones missing from it are out of view. */
+  applySnapshot(states: EntityStates): void {
+    for (const [entityId, state] of states) {
+      this.byEntityId.get(entityId)?.applySnapshot(state);
     }
   }
 
+  enterView(id: string, x: number, y: number, z: number, rx: number, ry: number): void {
+    this.players.get(id)?.enterView(x, y, z, rx, ry);
+  }
+
+  leaveView(id: string): void {
+    this.players.get(id)?.leaveView();
+  }
+
+  setPlayerRole(id: string, role: PlayerRole): void {
+    this.players.get(id)?.setRole(role);
+  }
+
   getPlayer(id: string): RemotePlayer | undefined {
     return this.players.get(id);
   }
 
+  /** Every remote player in the room, in view or not. */
+  getPlayers(): RemotePlayer[] {
+    return [...this.players.values()];
+  }
+
   update(dt: number): void {
     for (const [, player] of this.players) {
       player.update();
@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import type { NpcProfile } from '../../shared/Protocol';
+import { dequantizeAngle, dequantizePosition, type EntityStates } from '../../shared/SnapshotCodec';
 
 const BODY_WIDTH = 0.6;
 const BODY_HEIGHT = 1.2;
@@ -9,16 +11,9 @@ const ARM_HEIGHT = 0.9;
 const LEG_WIDTH = 0.25;
 const LEG_HEIGHT = 0.9;
 
-interface NpcData {
-  id: string;
-  name: string;
-  x: number;
-  y: number;
-  z: number;
-  rx: number;
-  ry: number;
+/** An NPC in view, for the player list. */
+export interface VisibleNpc extends NpcProfile {
   action: string;
-  color: [number, number, number];
 }
 
 interface NpcInstance {
@@ -37,35 +32,55 @@ interface NpcInstance {
 
 export class NPCRenderer {
   private scene: THREE.Scene;
-  private npcs = new Map<string, NpcInstance>();
+  private npcs = new Map<number, NpcInstance>();
+  private profiles = new Map<number, NpcProfile>(); // by entity ID, sent as NPCs come into view
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
   }
 
-  update(npcDataList: NpcData[], dt: number): void {
-    const activeIds = new Set<string>();
+  addProfiles(profiles: NpcProfile[]): void {
+    for (const profile of profiles) {
+      this.profiles.set(profile.entityId, profile);
+    }
+  }
+
+  /** The NPCs in view, with what each is doing. */
+  getVisibleNpcs(): VisibleNpc[] {
+    const visible: VisibleNpc[] = [];
+    for (const [entityId, instance] of this.npcs) {
+      const profile = this.profiles.get(entityId);
+      if (profile) visible.push({ ...profile, action: instance.lastAction });
+    }
+    return visible;
+  }
 
-    for (const data of npcDataList) {
-      activeIds.add(data.id);
-      let instance = this.npcs.get(data.id);
+  /** Show the NPCs of the latest snapshot; the ones missing from it are out of view. */
+  update(states: EntityStates, dt: number): void {
+    for (const [entityId, state] of states) {
+      const x = dequantizePosition(state.x);
+      const y = dequantizePosition(state.y);
+      const z = dequantizePosition(state.z);
+      let instance = this.npcs.get(entityId);
 
       if (!instance) {
-        instance = this.createNpc(data);
-        this.npcs.set(data.id, instance);
+        const profile = this.profiles.get(entityId);
+        if (!profile) continue;
+        instance = this.createNpc(profile, x, y, z, state.action);
+        this.npcs.set(entityId, instance);
         this.scene.add(instance.group);
       }
 
       // Update position
-      instance.group.position.set(data.x, data.y, data.z);
-      instance.group.rotation.y = data.ry;
+      instance.group.position.set(x, y, z);
+      instance.group.rotation.y = dequantizeAngle(state.ry);
 
       // Walk animation
-      const dx = data.x - instance.prevX;
-      const dz = data.z - instance.prevZ;
+      const dx = x - instance.prevX;
+      const dz = z - instance.prevZ;
       const speed = Math.sqrt(dx * dx + dz * dz);
-      instance.prevX = data.x;
-      instance.prevZ = data.z;
+      instance.prevX = x;
+      instance.prevZ = z;
 
       if (speed > 0.01) {
         instance.walkPhase += dt * 8;
@@ -83,15 +98,15 @@ export class NPCRenderer {
       }
 
       // Update action label if changed
-      if (data.action !== instance.lastAction) {
-        instance.lastAction = data.action;
-        this.updateActionSprite(instance.actionSprite, data.action);
+      if (state.action !== instance.lastAction) {
+        instance.lastAction = state.action;
+        this.updateActionSprite(instance.actionSprite, state.action);
       }
     }
 
     // Remove NPCs no longer present
     for (const [id, instance] of this.npcs) {
-      if (!activeIds.has(id)) {
+      if (!states.has(id)) {
         this.scene.remove(instance.group);
         this.disposeInstance(instance);
         this.npcs.delete(id);
@@ -99,9 +114,9 @@ export class NPCRenderer {
     }
   }
 
-  private createNpc(data: NpcData): NpcInstance {
+  private createNpc(profile: NpcProfile, x: number, y: number, z: number, action: string): NpcInstance {
     const group = new THREE.Group();
-    const bodyColor = new THREE.Color(data.color[0], data.color[1], data.color[2]);
+    const bodyColor = new THREE.Color(profile.color[0], profile.color[1], profile.color[2]);
     const skinColor = new THREE.Color(0.9, 0.75, 0.6);
 
     // Head
@@ -142,18 +157,18 @@ export class NPCRenderer {
     group.add(rightLeg);
 
     // Name sprite
-    const nameSprite = this.createTextSprite(data.name, 'bold 28px sans-serif', '#ffffff', 'rgba(0,0,0,0.5)');
+    const nameSprite = this.createTextSprite(profile.name, 'bold 28px sans-serif', '#ffffff', 'rgba(0,0,0,0.5)');
     nameSprite.position.y = BODY_HEIGHT / 2 + HEAD_SIZE + 0.5;
     nameSprite.scale.set(2, 0.5, 1);
     group.add(nameSprite);
 
     // Action sprite (below name)
-    const actionSprite = this.createTextSprite(data.action, '22px sans-serif', '#ffff88', 'rgba(0,0,0,0.3)');
+    const actionSprite = this.createTextSprite(action, '22px sans-serif', '#ffff88', 'rgba(0,0,0,0.3)');
     actionSprite.position.y = BODY_HEIGHT / 2 + HEAD_SIZE + 0.1;
     actionSprite.scale.set(2, 0.4, 1);
     group.add(actionSprite);
 
-    group.position.set(data.x, data.y, data.z);
+    group.position.set(x, y, z);
 
     return {
       group,
@@ -163,10 +178,10 @@ export class NPCRenderer {
       rightArm,
       leftLeg,
       rightLeg,
-      prevX: data.x,
-      prevZ: data.z,
+      prevX: x,
+      prevZ: z,
       walkPhase: 0,
-      lastAction: data.action,
+      lastAction: action,
     };
   }
 
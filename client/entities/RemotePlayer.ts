@@ -1,4 +1,7 @@
 import * as THREE from 'three';
+import type { PlayerRole } from '../../shared/Protocol';
+import { dequantizeAngle, dequantizePosition, type EntityState } from '../../shared/SnapshotCodec';
+import { angleDifference } from '../../shared/MathUtils';
 
 const BODY_WIDTH = 0.6;
 const BODY_HEIGHT = 1.2;
@@ -10,6 +13,8 @@ const LEG_WIDTH = 0.25;
 const LEG_HEIGHT = 0.9;
 const INTERPOLATION_DELAY = 100; // ms
 
+const ROLE_TAGS: Record<PlayerRole, string> = { host: '[Host] ', operator: '[Op] ', member: '' };
+
 interface PositionSnapshot {
   x: number;
   y: number;
@@ -19,8 +24,18 @@ interface PositionSnapshot {
   time: number;
 }
 
+/** Hue (0-1) of a player's body color, derived from the player ID; the player list uses it too. */
+export function hashToHue(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = str.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return (Math.abs(hash) % 360) / 360;
+}
+
 export class RemotePlayer {
   readonly id: string;
+  readonly entityId: number;
   readonly name: string;
   readonly group: THREE.Group;
 
@@ -32,18 +47,23 @@ export class RemotePlayer {
   private currentRx = 0;
   private currentRy = 0;
 
-  constructor(id: string, name: string, x: number, y: number, z: number) {
+  private currentRole: PlayerRole;
+
+  constructor(id: string, entityId: number, name: string, x: number, y: number, z: number, role: PlayerRole = 'member') {
     this.id = id;
+    this.entityId = entityId;
     this.name = name;
+    this.currentRole = role;
     this.group = new THREE.Group();
 
     this.currentX = x;
     this.currentY = y;
     this.currentZ = z;
     this.group.position.set(x, y, z);
+    this.group.visible = false; // until the server says it is in view
 
     // Generate a deterministic color from player id
-    const hue = this.hashToHue(id);
+    const hue = hashToHue(id);
     const bodyColor = new THREE.Color().setHSL(hue, 0.6, 0.5);
     const skinColor = new THREE.Color(0.9, 0.75, 0.6);
 
@@ -86,17 +106,27 @@ export class RemotePlayer {
     this.group.add(rightLeg);
 
     // Name label sprite
-    this.nameSprite = this.createNameSprite(name);
+    this.nameSprite = this.createNameSprite(ROLE_TAGS[role] + name);
     this.nameSprite.position.y = BODY_HEIGHT / 2 + HEAD_SIZE + 0.3;
     this.group.add(this.nameSprite);
   }
 
-  private hashToHue(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      hash = str.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    return (Math.abs(hash) % 360) / 360;
+  get role(): PlayerRole {
+    return this.currentRole;
+  }
+
+  /** Redraw the name label with the player's new role tag. */
+  setRole(role: PlayerRole): void {
+    if (role === this.currentRole) return;
+    this.currentRole = role;
+
+    const sprite = this.createNameSprite(ROLE_TAGS[role] + this.name);
+    sprite.position.copy(this.nameSprite.position);
+    this.group.remove(this.nameSprite);
+    this.nameSprite.material.map?.dispose();
+    this.nameSprite.material.dispose();
+    this.nameSprite = sprite;
+    this.group.add(sprite);
   }
 
   private createNameSprite(name: string): THREE.Sprite {
@@ -129,8 +159,26 @@ export class RemotePlayer {
     return sprite;
   }
 
-  setTarget(x: number, y: number, z: number, rx: number, ry: number): void {
+  /** Show the player at a position, without interpolating from where it was last seen. */
+  enterView(x: number, y: number, z: number, rx: number, ry: number): void {
+    this.positionBuffer = [];
     this.pushPosition(x, y, z, rx, ry);
+    this.group.visible = true;
+  }
+
+  leaveView(): void {
+    this.group.visible = false;
+  }
+
+  /** Interpolate towards the player's state in a decoded snapshot. */
+  applySnapshot(state: EntityState): void {
+    this.pushPosition(
+      dequantizePosition(state.x),
+      dequantizePosition(state.y),
+      dequantizePosition(state.z),
+      dequantizeAngle(state.rx),
+      dequantizeAngle(state.ry),
+    );
   }
 
   pushPosition(x: number, y: number, z: number, rx: number, ry: number): void {
@@ -169,8 +217,8 @@ export class RemotePlayer {
       this.currentX = from.x + (to.x - from.x) * t;
       this.currentY = from.y + (to.y - from.y) * t;
       this.currentZ = from.z + (to.z - from.z) * t;
-      this.currentRx = from.rx + (to.rx - from.rx) * t;
-      this.currentRy = from.ry + (to.ry - from.ry) * t;
+      this.currentRx = from.rx + angleDifference(from.rx, to.rx) * t;
+      this.currentRy = from.ry + angleDifference(from.ry, to.ry) * t;
     } else if (this.positionBuffer.length === 1) {
       const snap = this.positionBuffer[0];
       this.currentX = snap.x;
@@ -1,64 +1,123 @@
 import { Engine } from './engine/Engine';
 import { ConnectionScreen, type ConnectionResult } from './ui/ConnectionScreen';
 import { ChatUI } from './ui/ChatUI';
+import { PlayerList, type PlayerListContents } from './ui/PlayerList';
 import { NetworkClient } from './network/NetworkClient';
 import { EntityManager } from './entities/EntityManager';
+import { hashToHue } from './entities/RemotePlayer';
 import { BlockType } from '../shared/BlockTypes';
+import { randomSeed } from '../shared/MathUtils';
+import { hasRole } from '../shared/Roles';
+import type { RoomOptions, PlayerPermissions } from '../shared/Protocol';
+import { createCommandRegistry } from '../shared/BuiltinCommands';
+import { quoteCommandArg, type CommandContext } from '../shared/Commands';
+import { createLocalCommandContext } from './engine/LocalCommands';
 
 // --- Globals ---
 const network = new NetworkClient();
 let engine: Engine | null = null;
 let entityManager: EntityManager | null = null;
 let chatUI: ChatUI | null = null;
+let playerList: PlayerList | null = null; // multiplayer only
 let playerName = 'Player';
 let isMultiplayer = false;
+let currentRoomCode: string | null = null;
+let sessionToken: string | null = null; // lets a reconnect resume the same player
+let roomPassword: string | undefined; // kept to rejoin when a resume fails
+let localPlayerId: string | null = null;
+let localPermissions: PlayerPermissions | null = null;
+let latencies: Record<string, number> = {}; // by player ID, from the latest pong
+let networkEventsWired = false;
+let sessionEventsWired = false;
+let roomRequest: { mode: 'create' | 'join'; roomCode?: string; roomOptions?: Partial<RoomOptions> } | null = null; // from the connection screen
+
+const KICKED_KEY = 'roucraft-kicked'; // carries the kick reason across the reload
+
+// Solo games run chat commands locally; in rooms the server runs them
+const commands = createCommandRegistry();
+let localCommands: CommandContext | null = null;
 
 // --- Connection Screen ---
 const uiOverlay = document.getElementById('ui-overlay')!;
 const connectionScreen = new ConnectionScreen(uiOverlay);
 connectionScreen.show();
 
+const kickedReason = sessionStorage.getItem(KICKED_KEY);
+if (kickedReason) {
+  sessionStorage.removeItem(KICKED_KEY);
+  connectionScreen.showError(kickedReason);
+}
+
 connectionScreen.setOnConnect((result: ConnectionResult) => {
   playerName = result.playerName;
 
   if (result.mode === 'solo') {
-    startSoloGame();
+    startSoloGame(result.seed ?? randomSeed());
   } else if (result.mode === 'create') {
-    startMultiplayerGame('create', result.playerName);
+    roomPassword = result.roomOptions?.password || undefined;
+    startMultiplayerGame('create', undefined, result.roomOptions);
   } else if (result.mode === 'join') {
-    startMultiplayerGame('join', result.playerName, result.roomCode);
+    roomPassword = result.password;
+    startMultiplayerGame('join', result.roomCode);
   }
 });
 
 // --- Solo Game ---
-function startSoloGame(): void {
+function startSoloGame(seed: number): void {
   isMultiplayer = false;
   network.startOffline();
   connectionScreen.hide();
-  initEngine();
+  initEngine(seed);
 }
 
 // --- Multiplayer Game ---
-function startMultiplayerGame(mode: 'create' | 'join', name: string, roomCode?: string): void {
+// Also called again when the connection screen retries (e.g. after a wrong password)
+function startMultiplayerGame(mode: 'create' | 'join', roomCode?: string, roomOptions?: Partial<RoomOptions>): void {
   isMultiplayer = true;
+  roomRequest = { mode, roomCode, roomOptions };
+  wireSessionEvents();
 
-  network.on('connected', () => {
-    if (mode === 'create') {
-      network.createRoom(name);
-    } else if (roomCode) {
-      network.joinRoom(roomCode, name);
-    }
-  });
+  // A retry goes out on the connection that is already open
+  if (network.isReady) {
+    requestRoom();
+  } else {
+    network.connect();
+  }
+}
+
+/** Ask for the player's room: resume or rejoin the one they were in, else what the connection screen asked for. */
+function requestRoom(): void {
+  if (sessionToken) {
+    network.resume(sessionToken);
+  } else if (currentRoomCode) {
+    network.joinRoom(currentRoomCode, playerName, roomPassword);
+  } else if (roomRequest?.mode === 'create') {
+    network.createRoom(playerName, undefined, roomRequest.roomOptions);
+  } else if (roomRequest?.roomCode) {
+    network.joinRoom(roomRequest.roomCode, playerName, roomPassword);
+  }
+}
+
+// --- Room Session Wiring ---
+function wireSessionEvents(): void {
+  if (sessionEventsWired) return;
+  sessionEventsWired = true;
+
+  network.on('connected', requestRoom);
 
   network.on('roomCreated', (msg) => {
+    currentRoomCode = msg.roomCode;
+    sessionToken = msg.sessionToken;
+    localPlayerId = msg.playerId;
     connectionScreen.showRoomCode(msg.roomCode);
     connectionScreen.hide();
-    initEngine();
+    initEngine(msg.seed);
     wireNetworkEvents();
     // Show room code in HUD after engine is initialized
     if (engine && engine.hud) {
-      engine.hud.showRoomCode(msg.roomCode);
+      engine.hud.showRoomCode(msg.roomCode, msg.roomName);
     }
+    applyPermissions(msg.permissions);
     // Add room code to URL for easy sharing
     const url = new URL(window.location.href);
     url.searchParams.set('room', msg.roomCode);
@@ -66,37 +125,102 @@ function startMultiplayerGame(mode: 'create' | 'join', name: string, roomCode?:
   });
 
   network.on('roomJoined', (msg) => {
+    currentRoomCode = msg.roomCode;
+    sessionToken = msg.sessionToken;
+    localPlayerId = msg.playerId;
     connectionScreen.hide();
-    initEngine();
+    // A rejoin after a failed resume: the world changed while we were gone
+    const rejoining = engine !== null;
+    initEngine(msg.seed);
+    if (rejoining) engine?.resyncWorld();
     wireNetworkEvents();
+    engine?.hud.showRoomCode(msg.roomCode, msg.roomName);
+    applyPermissions(msg.permissions);
+
+    // Resume where we logged off last time
+    if (engine && msg.spawn) {
+      engine.playerController.setSpawn(msg.spawn.x, msg.spawn.y, msg.spawn.z, msg.spawn.rx, msg.spawn.ry);
+      engine.hud.selectSlot(msg.spawn.slot);
+    }
 
-    // Add existing players in the room
+    // Add existing players in the room (replacing any left over from before a rejoin)
     if (entityManager && msg.players) {
+      entityManager.clear();
+      for (const p of msg.players) {
+        entityManager.addPlayer(p.id, p.entityId, p.name, p.x, p.y, p.z, p.role);
+      }
+    }
+  });
+
+  network.on('resumed', (msg) => {
+    chatUI?.addSystemMessage('Reconnected');
+    engine?.playerController.applyCorrection(msg.x, msg.y, msg.z);
+    // Block changes sent while we were disconnected went to the dead socket
+    engine?.resyncWorld();
+
+    // Players may have come and gone while we were away
+    if (entityManager) {
+      entityManager.clear();
       for (const p of msg.players) {
-        entityManager.addPlayer(p.id, p.name, p.x, p.y, p.z);
+        entityManager.addPlayer(p.id, p.entityId, p.name, p.x, p.y, p.z, p.role);
       }
     }
   });
 
+  // Start over from the connection screen: the reload also stops reconnecting
+  network.on('kicked', (msg) => {
+    network.disconnect();
+    sessionStorage.setItem(KICKED_KEY, msg.reason);
+    const url = new URL(window.location.href);
+    url.searchParams.delete('room');
+    window.location.replace(url.toString());
+  });
+
+  // Too late to resume: join the room again as a returning player
+  network.on('resumeFailed', () => {
+    sessionToken = null;
+    if (currentRoomCode) {
+      network.joinRoom(currentRoomCode, playerName, roomPassword);
+    }
+  });
+
   network.on('roomError', (msg) => {
+    // Incompatible with the server (an old tab after a deploy): reconnecting won't help
+    if (msg.reload) {
+      network.disconnect();
+      if (document.pointerLockElement) document.exitPointerLock();
+      connectionScreen.showReloadPrompt(msg.error);
+      return;
+    }
     connectionScreen.showError(msg.error);
   });
 
+  // The server refused something this client sent: a client bug, so log it rather than bother the player
+  network.on('protocolError', (msg) => {
+    console.warn(`Server refused a message (${msg.code}): ${msg.error}`);
+    if (msg.disconnecting && !engine) {
+      connectionScreen.showError('Disconnected: too many invalid messages');
+    }
+  });
+
+  // Leaving on purpose: don't keep the player around waiting for a resume
+  window.addEventListener('pagehide', () => {
+    network.leaveRoom();
+  });
+
   network.on('disconnected', () => {
     if (chatUI) {
       chatUI.addSystemMessage('Disconnected from server. Attempting to reconnect...');
     }
   });
-
-  network.connect();
 }
 
 // --- Engine Init ---
-function initEngine(): void {
+function initEngine(seed: number): void {
   if (engine) return;
 
   engine = new Engine();
-  engine.init();
+  engine.init(seed, isMultiplayer ? network : undefined);
 
   entityManager = new EntityManager(engine.scene);
 
@@ -106,16 +230,39 @@ function initEngine(): void {
   chatUI.setOnSend((message) => {
     if (isMultiplayer && network.isConnected) {
       network.sendChat(message);
+    } else if (localCommands && message.startsWith('/')) {
+      commands.execute(localCommands, message);
     } else {
       chatUI!.addMessage(playerName, message);
     }
   });
+  chatUI.setOnComplete((text) => {
+    if (isMultiplayer) {
+      network.completeCommand(text);
+    } else if (localCommands) {
+      const { hints, usage } = commands.complete(localCommands, text);
+      chatUI!.showHints(text, hints, usage);
+    }
+  });
+  if (!isMultiplayer) {
+    localCommands = createLocalCommandContext(engine, playerName, (message) => chatUI!.addSystemMessage(message));
+  }
+
+  if (isMultiplayer) {
+    playerList = new PlayerList(uiOverlay, getPlayerListContents);
+    playerList.setOnTeleport((name) => network.sendChat(`/tp ${quoteCommandArg(name)}`));
+    playerList.setOnWhisper((name) => chatUI!.open(`/msg ${quoteCommandArg(name)} `));
+  }
 
   // Chat key handling - intercept T/Enter before other game keys
   document.addEventListener('keydown', (e) => {
     if (chatUI && chatUI.handleKeyDown(e)) {
       return;
     }
+    playerList?.handleKeyDown(e);
+  });
+  document.addEventListener('keyup', (e) => {
+    playerList?.handleKeyUp(e);
   });
 
   // Wire block interaction callbacks for network
@@ -123,39 +270,73 @@ function initEngine(): void {
   engine.blockInteraction.onBlockBreak = (x, y, z, blockType) => {
     // Fire existing particle callback
     origBreak?.(x, y, z, blockType);
-    // Send to server
-    if (isMultiplayer && network.isConnected) {
-      network.sendBlockUpdate(x, y, z, BlockType.Air);
-    }
+    // Send to server (the break is already shown and rolled back if refused)
+    engine!.blockPredictor?.submit(x, y, z, BlockType.Air, blockType);
   };
 
-  engine.blockInteraction.onBlockPlace = (x, y, z, blockType) => {
-    if (isMultiplayer && network.isConnected) {
-      network.sendBlockUpdate(x, y, z, blockType);
-    }
+  engine.blockInteraction.onBlockPlace = (x, y, z, blockType, replaced) => {
+    engine!.blockPredictor?.submit(x, y, z, blockType, replaced);
   };
 
   // Send player position updates in multiplayer
   if (isMultiplayer) {
     setInterval(() => {
-      if (!engine || !network.isConnected) return;
+      if (!engine || !network.isConnected || !engine.playerController.isSpawned) return;
       const pos = engine.playerController.getPosition();
       const rot = engine.playerController.getRotation();
-      network.sendPlayerUpdate(pos.x, pos.y, pos.z, rot.rx, rot.ry);
+      network.sendPlayerUpdate(pos.x, pos.y, pos.z, rot.rx, rot.ry, engine.hud.selectedSlot);
     }, 50);
   }
 }
 
+// --- Player List ---
+function getPlayerListContents(): PlayerListContents {
+  // 0 until a round trip has been measured
+  const ping = (rtt: number | undefined) => rtt || null;
+  const role = localPermissions?.role ?? 'member';
+
+  const players = (entityManager?.getPlayers() ?? []).map(player => ({
+    id: player.id,
+    name: player.name,
+    role: player.role,
+    hue: hashToHue(player.id),
+    ping: ping(latencies[player.id]),
+    isSelf: false,
+  }));
+  if (localPlayerId) {
+    players.push({
+      id: localPlayerId,
+      name: playerName,
+      role,
+      hue: hashToHue(localPlayerId),
+      ping: ping(network.rtt),
+      isSelf: true,
+    });
+  }
+
+  return {
+    players,
+    npcs: engine?.getVisibleNpcs() ?? [],
+    canTeleport: hasRole(role, 'operator'),
+    canWhisper: !localPermissions?.muted,
+  };
+}
+
+// --- Permissions ---
+function applyPermissions(permissions: PlayerPermissions): void {
+  localPermissions = permissions;
+  if (!engine) return;
+  engine.hud.setRole(permissions.role);
+  engine.blockInteraction.enabled = permissions.canBuild;
+}
+
 // --- Network Event Wiring ---
 function wireNetworkEvents(): void {
-  if (!engine || !entityManager || !chatUI) return;
-
-  network.on('blockChanged', (msg) => {
-    engine!.chunkManager.setBlock(msg.x, msg.y, msg.z, msg.blockType as BlockType);
-  });
+  if (!engine || !entityManager || !chatUI || networkEventsWired) return;
+  networkEventsWired = true;
 
   network.on('playerJoined', (msg) => {
-    entityManager!.addPlayer(msg.playerId, msg.playerName, msg.x, msg.y, msg.z);
+    entityManager!.addPlayer(msg.playerId, msg.entityId, msg.playerName, msg.x, msg.y, msg.z, msg.role);
     chatUI!.addSystemMessage(`${msg.playerName} joined the game`);
   });
 
@@ -167,15 +348,65 @@ function wireNetworkEvents(): void {
     entityManager!.removePlayer(msg.playerId);
   });
 
-  network.on('playerMoved', (msg) => {
-    entityManager!.updatePlayer(msg.playerId, msg.x, msg.y, msg.z, msg.rx, msg.ry);
+  network.on('snapshot', (snapshot) => {
+    entityManager!.applySnapshot(snapshot.players);
+    engine!.handleNpcSnapshot(snapshot.npcs);
+  });
+
+  // Players stay in the room's list while out of view, only their models are hidden
+  network.on('playerEnteredView', (msg) => {
+    entityManager!.enterView(msg.playerId, msg.x, msg.y, msg.z, msg.rx, msg.ry);
+  });
+
+  network.on('playerLeftView', (msg) => {
+    entityManager!.leaveView(msg.playerId);
   });
 
   network.on('chatBroadcast', (msg) => {
-    chatUI!.addMessage(msg.playerName, msg.message);
+    if (msg.whisper) {
+      chatUI!.addWhisper(msg.playerName, msg.message);
+    } else {
+      chatUI!.addMessage(msg.playerName, msg.message);
+    }
+  });
+
+  network.on('commandHints', (msg) => {
+    chatUI!.showHints(msg.text, msg.hints, msg.usage);
+  });
+
+  network.on('selectSlot', (msg) => {
+    engine!.hud.selectSlot(msg.slot);
+  });
+
+  network.on('npcInfo', (msg) => {
+    engine!.handleNpcInfo(msg);
+  });
+
+  network.on('worldInfo', (msg) => {
+    engine!.handleWorldInfo(msg);
+  });
+
+  network.on('claims', (msg) => {
+    engine!.handleClaims(msg);
+  });
+
+  network.on('positionCorrection', (msg) => {
+    engine!.playerController.applyCorrection(msg.x, msg.y, msg.z);
+  });
+
+  network.on('playerStatus', (msg) => {
+    if (msg.playerId === localPlayerId) {
+      applyPermissions(msg);
+    } else {
+      entityManager!.setPlayerRole(msg.playerId, msg.role);
+    }
+  });
+
+  network.on('systemNotice', (msg) => {
+    chatUI!.addSystemMessage(msg.message);
   });
 
-  network.on('npcUpdate', (msg) => {
-    engine!.handleNpcUpdate(msg);
+  network.on('pong', (msg) => {
+    latencies = msg.latencies;
   });
 }
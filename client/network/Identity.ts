@@ -0,0 +1,22 @@
+const STORAGE_KEY = 'roucraft-identity';
+
+function generateIdentity(): string {
+  // getRandomValues works outside secure contexts too (e.g. a LAN IP over http)
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Random id created once per browser so rooms can recognize returning players. */
+export function getPlayerIdentity(): string {
+  try {
+    let identity = localStorage.getItem(STORAGE_KEY);
+    if (!identity) {
+      identity = generateIdentity();
+      localStorage.setItem(STORAGE_KEY, identity);
+    }
+    return identity;
+  } catch {
+    // Storage unavailable: this session just won't be recognized later
+    return generateIdentity();
+  }
+}
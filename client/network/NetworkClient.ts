@@ -1,38 +1,89 @@
 import {
   MessageType,
+  BinaryMessageType,
+  PROTOCOL_VERSION,
+  ProtocolFeature,
   ClientMessage,
   ServerMessage,
   RoomCreatedMessage,
   RoomJoinedMessage,
   RoomErrorMessage,
+  ProtocolErrorMessage,
+  PongMessage,
+  ResumedMessage,
+  ResumeFailedMessage,
   ChunkDataMessage,
-  BlockChangedMessage,
+  BlockAckMessage,
   PlayerJoinedMessage,
   PlayerLeftMessage,
-  PlayerMovedMessage,
+  PlayerEnteredViewMessage,
+  PlayerLeftViewMessage,
   ChatBroadcastMessage,
-  NpcUpdateMessage,
+  NpcInfoMessage,
   WorldInfoMessage,
+  PositionCorrectionMessage,
+  RoomOptions,
+  PlayerStatusMessage,
+  KickedMessage,
+  SystemNoticeMessage,
+  CommandHintsMessage,
+  SelectSlotMessage,
+  ClaimsMessage,
+  MultiBlockChangeMessage,
 } from '../../shared/Protocol';
+import { decodeChunkFrame } from '../../shared/ChunkCodec';
+import type { Snapshot } from '../../shared/SnapshotCodec';
+import { SnapshotReceiver } from './SnapshotReceiver';
+import { getPlayerIdentity } from './Identity';
+
+declare const __BUILD_ID__: string; // set by vite (see vite.config.ts)
+
+/** Everything this client can speak; announced in the Hello. */
+const CLIENT_FEATURES: ProtocolFeature[] = ['binaryChunks', 'binarySnapshots', 'chunkCompression'];
+const PING_INTERVAL = 2000; // ms
 
 type EventMap = {
   roomCreated: RoomCreatedMessage;
   roomJoined: RoomJoinedMessage;
   roomError: RoomErrorMessage;
+  protocolError: ProtocolErrorMessage;
+  pong: PongMessage;
+  resumed: ResumedMessage;
+  resumeFailed: ResumeFailedMessage;
   chunkData: ChunkDataMessage;
-  blockChanged: BlockChangedMessage;
+  multiBlockChange: MultiBlockChangeMessage;
+  blockAck: BlockAckMessage;
   playerJoined: PlayerJoinedMessage;
   playerLeft: PlayerLeftMessage;
-  playerMoved: PlayerMovedMessage;
+  playerEnteredView: PlayerEnteredViewMessage;
+  playerLeftView: PlayerLeftViewMessage;
   chatBroadcast: ChatBroadcastMessage;
-  npcUpdate: NpcUpdateMessage;
+  npcInfo: NpcInfoMessage;
+  snapshot: Snapshot;
   worldInfo: WorldInfoMessage;
+  positionCorrection: PositionCorrectionMessage;
+  playerStatus: PlayerStatusMessage;
+  kicked: KickedMessage;
+  systemNotice: SystemNoticeMessage;
+  commandHints: CommandHintsMessage;
+  selectSlot: SelectSlotMessage;
+  claims: ClaimsMessage;
   connected: void;
   disconnected: void;
 };
 
 type EventHandler<T> = (data: T) => void;
 
+/** WebSocket URL of the game server: VITE_WS_URL, or port 3001 on the page's host. */
+export function getServerUrl(): string {
+  if (import.meta.env.VITE_WS_URL) {
+    return import.meta.env.VITE_WS_URL;
+  }
+  // Default for local development - use wss:// for HTTPS, ws:// for HTTP
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.hostname}:3001`;
+}
+
 export class NetworkClient {
   private ws: WebSocket | null = null;
   private listeners: Map<string, Set<EventHandler<any>>> = new Map();
@@ -44,26 +95,32 @@ export class NetworkClient {
   private isOffline = false;
   private lastPositionSend = 0;
   private positionThrottle = 50; // ms
+  private snapshots = new SnapshotReceiver();
+  private pingTimer: number | null = null;
+  private lastRtt = 0; // ms, 0 until the first pong
+  private welcomed = false; // the server accepted this connection's Hello
 
   get isConnected(): boolean {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
 
+  /** Connected and past the handshake, so room requests can be sent. */
+  get isReady(): boolean {
+    return this.isConnected && this.welcomed;
+  }
+
   get offline(): boolean {
     return this.isOffline;
   }
 
+  /** Last measured round trip to the server in ms, 0 before the first. */
+  get rtt(): number {
+    return this.lastRtt;
+  }
+
   connect(url?: string): void {
-    // Use provided URL, environment variable, or default to local development
-    if (url) {
-      this.url = url;
-    } else if (import.meta.env.VITE_WS_URL) {
-      this.url = import.meta.env.VITE_WS_URL;
-    } else {
-      // Default for local development - use wss:// for HTTPS, ws:// for HTTP
-      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      this.url = `${protocol}//${window.location.hostname}:3001`;
-    }
+    this.disconnect(); // never leave a second socket delivering messages
+    this.url = url ?? getServerUrl();
     this.isOffline = false;
     this.doConnect();
   }
@@ -74,15 +131,18 @@ export class NetworkClient {
   }
 
   disconnect(): void {
+    this.stopPinging();
     if (this.reconnectTimer !== null) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
     if (this.ws) {
       this.ws.onclose = null; // prevent reconnect on intentional disconnect
+      this.ws.onmessage = null;
       this.ws.close();
       this.ws = null;
     }
+    this.welcomed = false;
   }
 
   private doConnect(): void {
@@ -90,6 +150,7 @@ export class NetworkClient {
 
     try {
       this.ws = new WebSocket(this.url);
+      this.ws.binaryType = 'arraybuffer';
     } catch {
       this.scheduleReconnect();
       return;
@@ -97,11 +158,22 @@ export class NetworkClient {
 
     this.ws.onopen = () => {
       this.reconnectAttempts = 0;
-      this.emit('connected', undefined as any);
+      this.snapshots.reset();
+      // 'connected' waits for the server's Welcome
+      this.send({
+        type: MessageType.Hello,
+        protocolVersion: PROTOCOL_VERSION,
+        buildId: __BUILD_ID__,
+        features: CLIENT_FEATURES,
+      });
     };
 
     this.ws.onmessage = (event) => {
       try {
+        if (event.data instanceof ArrayBuffer) {
+          this.routeBinaryMessage(new Uint8Array(event.data));
+          return;
+        }
         const message = JSON.parse(event.data as string) as ServerMessage;
         this.routeMessage(message);
       } catch (err) {
@@ -111,6 +183,8 @@ export class NetworkClient {
 
     this.ws.onclose = () => {
       this.ws = null;
+      this.welcomed = false;
+      this.stopPinging();
       this.emit('disconnected', undefined as any);
       this.scheduleReconnect();
     };
@@ -138,6 +212,17 @@ export class NetworkClient {
 
   private routeMessage(message: ServerMessage): void {
     switch (message.type) {
+      case MessageType.Welcome:
+        // Frames say how they are encoded, so nothing here depends on which features were agreed
+        console.log(`Connected to server build ${message.buildId} (protocol ${message.protocolVersion}, ${message.features.join(', ')})`);
+        this.welcomed = true;
+        this.startPinging();
+        this.emit('connected', undefined as any);
+        break;
+      case MessageType.Pong:
+        this.lastRtt = Math.round(performance.now() - message.time);
+        this.emit('pong', message);
+        break;
       case MessageType.RoomCreated:
         this.emit('roomCreated', message);
         break;
@@ -147,11 +232,20 @@ export class NetworkClient {
       case MessageType.RoomError:
         this.emit('roomError', message);
         break;
-      case MessageType.ChunkData:
-        this.emit('chunkData', message);
+      case MessageType.ProtocolError:
+        this.emit('protocolError', message);
+        break;
+      case MessageType.Resumed:
+        this.emit('resumed', message);
+        break;
+      case MessageType.ResumeFailed:
+        this.emit('resumeFailed', message);
+        break;
+      case MessageType.MultiBlockChange:
+        this.emit('multiBlockChange', message);
         break;
-      case MessageType.BlockChanged:
-        this.emit('blockChanged', message);
+      case MessageType.BlockAck:
+        this.emit('blockAck', message);
         break;
       case MessageType.PlayerJoined:
         this.emit('playerJoined', message);
@@ -159,50 +253,113 @@ export class NetworkClient {
       case MessageType.PlayerLeft:
         this.emit('playerLeft', message);
         break;
-      case MessageType.PlayerMoved:
-        this.emit('playerMoved', message);
+      case MessageType.PlayerEnteredView:
+        this.emit('playerEnteredView', message);
+        break;
+      case MessageType.PlayerLeftView:
+        this.emit('playerLeftView', message);
         break;
       case MessageType.ChatBroadcast:
         this.emit('chatBroadcast', message);
         break;
-      case MessageType.NpcUpdate:
-        this.emit('npcUpdate', message);
+      case MessageType.NpcInfo:
+        this.emit('npcInfo', message);
         break;
       case MessageType.WorldInfo:
         this.emit('worldInfo', message);
         break;
+      case MessageType.PositionCorrection:
+        this.emit('positionCorrection', message);
+        break;
+      case MessageType.PlayerStatus:
+        this.emit('playerStatus', message);
+        break;
+      case MessageType.Kicked:
+        this.emit('kicked', message);
+        break;
+      case MessageType.SystemNotice:
+        this.emit('systemNotice', message);
+        break;
+      case MessageType.CommandHints:
+        this.emit('commandHints', message);
+        break;
+      case MessageType.SelectSlot:
+        this.emit('selectSlot', message);
+        break;
+      case MessageType.Claims:
+        this.emit('claims', message);
+        break;
+    }
+  }
+
+  private startPinging(): void {
+    this.stopPinging();
+    const ping = () => this.send({ type: MessageType.Ping, time: performance.now() });
+    ping();
+    this.pingTimer = window.setInterval(ping, PING_INTERVAL);
+  }
+
+  private stopPinging(): void {
+    if (this.pingTimer !== null) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private routeBinaryMessage(frame: Uint8Array): void {
+    switch (frame[0]) {
+      case BinaryMessageType.ChunkData: {
+        const { cx, cy, cz, data } = decodeChunkFrame(frame);
+        this.emit('chunkData', { type: MessageType.ChunkData, cx, cy, cz, data });
+        break;
+      }
+      case BinaryMessageType.Snapshot:
+        this.emit('snapshot', this.snapshots.receive(frame));
+        break;
     }
   }
 
   // --- Send methods ---
 
-  createRoom(playerName: string): void {
-    this.send({ type: MessageType.CreateRoom, playerName });
+  createRoom(playerName: string, roomCode?: string, options?: Partial<RoomOptions>): void {
+    this.send({ type: MessageType.CreateRoom, playerName, identity: getPlayerIdentity(), roomCode, options });
+  }
+
+  joinRoom(roomCode: string, playerName: string, password?: string): void {
+    this.send({ type: MessageType.JoinRoom, roomCode, playerName, identity: getPlayerIdentity(), password });
+  }
+
+  leaveRoom(): void {
+    this.send({ type: MessageType.LeaveRoom });
   }
 
-  joinRoom(roomCode: string, playerName: string): void {
-    this.send({ type: MessageType.JoinRoom, roomCode, playerName });
+  resume(sessionToken: string): void {
+    this.send({ type: MessageType.Resume, sessionToken });
   }
 
   requestChunk(cx: number, cy: number, cz: number): void {
     this.send({ type: MessageType.RequestChunk, cx, cy, cz });
   }
 
-  sendBlockUpdate(x: number, y: number, z: number, blockType: number): void {
-    this.send({ type: MessageType.BlockUpdate, x, y, z, blockType });
+  sendBlockUpdate(seq: number, x: number, y: number, z: number, blockType: number): void {
+    this.send({ type: MessageType.BlockUpdate, seq, x, y, z, blockType });
   }
 
-  sendPlayerUpdate(x: number, y: number, z: number, rx: number, ry: number): void {
+  sendPlayerUpdate(x: number, y: number, z: number, rx: number, ry: number, slot: number): void {
     const now = performance.now();
     if (now - this.lastPositionSend < this.positionThrottle) return;
     this.lastPositionSend = now;
-    this.send({ type: MessageType.PlayerUpdate, x, y, z, rx, ry });
+    this.send({ type: MessageType.PlayerUpdate, x, y, z, rx, ry, slot, snapshotAck: this.snapshots.ack });
   }
 
   sendChat(message: string): void {
     this.send({ type: MessageType.ChatMessage, message });
   }
 
+  completeCommand(text: string): void {
+    this.send({ type: MessageType.CompleteCommand, text });
+  }
+
   private send(message: ClientMessage): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
@@ -0,0 +1,13 @@
+import type { RoomListing } from '../../shared/Protocol';
+import { getServerUrl } from './NetworkClient';
+
+/** Public rooms from the server's HTTP API, which shares the WebSocket's host and port. */
+export async function fetchPublicRooms(): Promise<RoomListing[]> {
+  const url = new URL('/api/rooms', getServerUrl().replace(/^ws/, 'http'));
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Room list request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { rooms: RoomListing[] };
+  return body.rooms;
+}
@@ -0,0 +1,30 @@
+import { decodeSnapshotFrame, type Snapshot } from '../../shared/SnapshotCodec';
+
+/** The snapshots received since the server's current baseline, so the next frames can be decoded against it. */
+export class SnapshotReceiver {
+  private received = new Map<number, Snapshot>();
+  private lastSeq = 0;
+
+  /** Acknowledged with each PlayerUpdate; 0 until the first snapshot. */
+  get ack(): number {
+    return this.lastSeq;
+  }
+
+  receive(frame: Uint8Array): Snapshot {
+    const { seq, baselineSeq, snapshot } = decodeSnapshotFrame(frame, (baseline) => this.received.get(baseline));
+
+    // The server never goes back to a baseline older than one it has used
+    for (const receivedSeq of this.received.keys()) {
+      if (receivedSeq < baselineSeq || baselineSeq === 0) this.received.delete(receivedSeq);
+    }
+    this.received.set(seq, snapshot);
+    this.lastSeq = seq;
+    return snapshot;
+  }
+
+  /** A new connection starts a new sequence. */
+  reset(): void {
+    this.received.clear();
+    this.lastSeq = 0;
+  }
+}
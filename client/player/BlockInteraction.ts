@@ -2,16 +2,16 @@ import * as THREE from 'three';
 import { BlockType, BLOCK_PROPERTIES } from '../../shared/BlockTypes';
 import type { ChunkManager } from '../world/ChunkManager';
 import type { PlayerController } from './PlayerController';
-
-const MAX_REACH = 6;
+import { MAX_REACH } from '../../shared/PlayerConstants';
 
 export class BlockInteraction {
   private highlight: THREE.LineSegments;
   private targetBlock: { x: number; y: number; z: number } | null = null;
   private adjacentBlock: { x: number; y: number; z: number } | null = null;
   selectedBlockType: BlockType = BlockType.Grass;
+  enabled = true; // false while the room doesn't let this player build
   onBlockBreak: ((x: number, y: number, z: number, blockType: BlockType) => void) | null = null;
-  onBlockPlace: ((x: number, y: number, z: number, blockType: BlockType) => void) | null = null;
+  onBlockPlace: ((x: number, y: number, z: number, blockType: BlockType, replaced: BlockType) => void) | null = null;
   private playerController: PlayerController;
 
   constructor(scene: THREE.Scene, playerController: PlayerController) {
@@ -29,7 +29,7 @@ export class BlockInteraction {
 
     // Mouse events for block break/place
     document.addEventListener('mousedown', (e) => {
-      if (!this.playerController.isLocked) return;
+      if (!this.playerController.isLocked || !this.enabled) return;
       if (e.button === 0) this.breakBlock();
       if (e.button === 2) this.placeBlock();
     });
@@ -147,7 +147,8 @@ export class BlockInteraction {
       return;
     }
 
+    const replaced = this.chunkManager.getBlock(x, y, z) as BlockType;
     this.chunkManager.setBlock(x, y, z, this.selectedBlockType);
-    this.onBlockPlace?.(x, y, z, this.selectedBlockType);
+    this.onBlockPlace?.(x, y, z, this.selectedBlockType, replaced);
   }
 }
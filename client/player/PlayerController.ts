@@ -1,17 +1,23 @@
 import * as THREE from 'three';
 import { BlockType, BLOCK_PROPERTIES } from '../../shared/BlockTypes';
 import type { ChunkManager } from '../world/ChunkManager';
+import {
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT,
+  EYE_HEIGHT,
+  WALK_SPEED,
+  SPRINT_SPEED,
+  GRAVITY,
+  TERMINAL_VELOCITY,
+  JUMP_IMPULSE,
+  overlapsBody,
+  bodyCollides,
+} from '../../shared/PlayerConstants';
 
-const WALK_SPEED = 5;
-const SPRINT_SPEED = 8;
 const LOOK_SENSITIVITY = 0.002;
-const GRAVITY = -20;
-const TERMINAL_VELOCITY = -50;
-const JUMP_IMPULSE = 8;
-const PLAYER_WIDTH = 0.6;
-const PLAYER_HEIGHT = 1.8;
-const EYE_HEIGHT = 1.6;
 const HALF_WIDTH = PLAYER_WIDTH / 2; // 0.3
+const CORRECTION_SNAP_DISTANCE = 2; // server corrections farther than this are applied at once
+const CORRECTION_BLEND_RATE = 15; // per second, for smaller corrections
 
 export class PlayerController {
   private camera: THREE.PerspectiveCamera;
@@ -25,6 +31,7 @@ export class PlayerController {
   mouseSensitivity = 1.0;
   private isOnGround = false;
   private spawned = false;
+  private correction = new THREE.Vector3(); // remaining offset to a server correction
 
   constructor(camera: THREE.PerspectiveCamera, canvas: HTMLCanvasElement) {
     this.camera = camera;
@@ -68,9 +75,35 @@ export class PlayerController {
     return 80;
   }
 
+  /** Place the player at a saved position instead of searching for ground at the origin. */
+  setSpawn(x: number, y: number, z: number, rx: number, ry: number): void {
+    this.position.set(x, y, z);
+    this.velocity.set(0, 0, 0);
+    this.pitch = rx;
+    this.yaw = ry;
+    this.spawned = true;
+  }
+
+  get isSpawned(): boolean {
+    return this.spawned;
+  }
+
+  /** Move back to where the server says the player is: snap if far, otherwise blend over a few frames. */
+  applyCorrection(x: number, y: number, z: number): void {
+    this.velocity.set(0, 0, 0);
+    const offset = new THREE.Vector3(x, y, z).sub(this.position);
+    if (offset.length() > CORRECTION_SNAP_DISTANCE) {
+      this.position.set(x, y, z);
+      this.correction.set(0, 0, 0);
+    } else {
+      this.correction.copy(offset);
+    }
+  }
+
   update(dt: number, chunkManager: ChunkManager): void {
-    // Find spawn position on first update
+    // Find spawn position on first update (in multiplayer, wait for the spawn column to arrive)
     if (!this.spawned) {
+      if (!chunkManager.isColumnLoaded(0, 0)) return;
       const spawnY = this.findSpawnHeight(chunkManager);
       this.position.set(0, spawnY + 1, 0);
       this.spawned = true;
@@ -80,7 +113,8 @@ export class PlayerController {
     const euler = new THREE.Euler(this.pitch, this.yaw, 0, 'YXZ');
     this.camera.quaternion.setFromEuler(euler);
 
-    if (!this.isLocked) {
+    // Hold still over chunks that haven't been received yet instead of falling through them
+    if (!this.isLocked || !chunkManager.isLoaded(this.position.x, this.position.y, this.position.z)) {
       this.camera.position.set(
         this.position.x,
         this.position.y + EYE_HEIGHT,
@@ -89,6 +123,14 @@ export class PlayerController {
       return;
     }
 
+    // Ease toward the last server correction
+    if (this.correction.lengthSq() > 0) {
+      const step = this.correction.clone().multiplyScalar(Math.min(1, dt * CORRECTION_BLEND_RATE));
+      if (this.correction.lengthSq() < 0.0001) step.copy(this.correction);
+      this.position.add(step);
+      this.correction.sub(step);
+    }
+
     // Movement input
     const forward = new THREE.Vector3(0, 0, -1);
     forward.applyAxisAngle(new THREE.Vector3(0, 1, 0), this.yaw);
@@ -180,38 +222,13 @@ export class PlayerController {
   }
 
   private collidesAt(pos: THREE.Vector3, chunkManager: ChunkManager): boolean {
-    const minX = Math.floor(pos.x - HALF_WIDTH);
-    const maxX = Math.floor(pos.x + HALF_WIDTH - 0.0001);
-    const minY = Math.floor(pos.y);
-    const maxY = Math.floor(pos.y + PLAYER_HEIGHT - 0.0001);
-    const minZ = Math.floor(pos.z - HALF_WIDTH);
-    const maxZ = Math.floor(pos.z + HALF_WIDTH - 0.0001);
-
-    for (let bx = minX; bx <= maxX; bx++) {
-      for (let by = minY; by <= maxY; by++) {
-        for (let bz = minZ; bz <= maxZ; bz++) {
-          const block = chunkManager.getBlock(bx, by, bz);
-          if (block !== BlockType.Air && BLOCK_PROPERTIES[block as BlockType]?.solid) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
+    return bodyCollides(pos.x, pos.y, pos.z, (x, y, z) => chunkManager.getBlock(x, y, z));
   }
 
   /** Check if a world-space AABB overlaps the player */
   overlapsPlayer(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): boolean {
-    const pMinX = this.position.x - HALF_WIDTH;
-    const pMaxX = this.position.x + HALF_WIDTH;
-    const pMinY = this.position.y;
-    const pMaxY = this.position.y + PLAYER_HEIGHT;
-    const pMinZ = this.position.z - HALF_WIDTH;
-    const pMaxZ = this.position.z + HALF_WIDTH;
-
-    return pMinX < maxX && pMaxX > minX &&
-           pMinY < maxY && pMaxY > minY &&
-           pMinZ < maxZ && pMaxZ > minZ;
+    const { x, y, z } = this.position;
+    return overlapsBody(x, y, z, minX, minY, minZ, maxX, maxY, maxZ);
   }
 
   getPosition(): { x: number; y: number; z: number } {
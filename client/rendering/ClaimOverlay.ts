@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import type { ClaimSummary } from '../../shared/Protocol';
+
+const TRUSTED_COLOR = 0x4caf50; // claims the player may build in
+const PROTECTED_COLOR = 0xff7043;
+const FACE_OPACITY = 0.08;
+const INSET = 0.01; // keeps the walls off block faces to avoid z-fighting
+
+/** Outlines protected regions (claims) with their boundaries and faint walls. */
+export class ClaimOverlay {
+  private group = new THREE.Group();
+  private edgeMaterials = {
+    trusted: new THREE.LineBasicMaterial({ color: TRUSTED_COLOR }),
+    protected: new THREE.LineBasicMaterial({ color: PROTECTED_COLOR }),
+  };
+  private faceMaterials = {
+    trusted: this.createFaceMaterial(TRUSTED_COLOR),
+    protected: this.createFaceMaterial(PROTECTED_COLOR),
+  };
+
+  constructor(scene: THREE.Scene) {
+    scene.add(this.group);
+  }
+
+  setClaims(claims: ClaimSummary[]): void {
+    this.clear();
+
+    for (const claim of claims) {
+      const kind = claim.access === 'none' ? 'protected' : 'trusted';
+      const width = claim.maxX - claim.minX + 1 + INSET * 2;
+      const height = claim.maxY - claim.minY + 1 + INSET * 2;
+      const depth = claim.maxZ - claim.minZ + 1 + INSET * 2;
+      const box = new THREE.BoxGeometry(width, height, depth);
+
+      const edges = new THREE.LineSegments(new THREE.EdgesGeometry(box), this.edgeMaterials[kind]);
+      const faces = new THREE.Mesh(box, this.faceMaterials[kind]);
+      for (const object of [edges, faces]) {
+        object.position.set(
+          claim.minX - INSET + width / 2,
+          claim.minY - INSET + height / 2,
+          claim.minZ - INSET + depth / 2,
+        );
+        this.group.add(object);
+      }
+    }
+  }
+
+  private clear(): void {
+    for (const object of this.group.children) {
+      (object as THREE.Mesh | THREE.LineSegments).geometry.dispose();
+    }
+    this.group.clear();
+  }
+
+  private createFaceMaterial(color: number): THREE.MeshBasicMaterial {
+    return new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: FACE_OPACITY,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+  }
+}
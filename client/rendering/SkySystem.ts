@@ -1,8 +1,10 @@
 import * as THREE from 'three';
+import { START_DAY_TIME, advanceDayTime } from '../../shared/WorldTime';
 
-const CYCLE_DURATION = 20 * 60; // 20 minutes in seconds
 const TWO_PI = Math.PI * 2;
 const SUN_DISTANCE = 300;
+const SNAP_THRESHOLD = 0.02; // ~24 seconds of day time: jump instead of easing
+const CORRECTION_RATE = 0.5; // fraction of the remaining drift removed per second
 
 // Sky colors for different times of day
 const DAY_SKY = new THREE.Color(0x87CEEB);
@@ -20,7 +22,9 @@ const SUNSET_SUN_COLOR = new THREE.Color(0xFFAA44);
 const NOON_SUN_COLOR = new THREE.Color(0xffffff);
 
 export class SkySystem {
-  private time = 0.35; // Start slightly after sunrise
+  private time = START_DAY_TIME;
+  private serverTime: number | null = null; // room time in multiplayer, advanced locally between updates
+  private running = true; // false in rooms with the daylight cycle off
   private sunLight: THREE.DirectionalLight;
   private ambientLight: THREE.AmbientLight;
   private scene: THREE.Scene;
@@ -83,10 +87,33 @@ export class SkySystem {
   }
 
   update(dt: number): void {
-    this.time = (this.time + dt / CYCLE_DURATION) % 1.0;
+    const elapsed = this.running ? dt : 0;
+    this.time = advanceDayTime(this.time, elapsed);
+
+    if (this.serverTime !== null) {
+      this.serverTime = advanceDayTime(this.serverTime, elapsed);
+
+      // Shortest way around the clock, in [-0.5, 0.5)
+      const drift = ((this.serverTime - this.time + 1.5) % 1) - 0.5;
+      if (Math.abs(drift) > SNAP_THRESHOLD) {
+        this.time = this.serverTime;
+      } else {
+        this.time = advanceDayTime(this.time + drift * Math.min(1, dt * CORRECTION_RATE), 0);
+      }
+    }
+
     this.updateLighting();
   }
 
+  /** Follow the room's clock. The first update locks to it, later ones are eased in. */
+  setServerTime(dayTime: number, running: boolean = true): void {
+    if (this.serverTime === null) {
+      this.time = dayTime;
+    }
+    this.serverTime = dayTime;
+    this.running = running;
+  }
+
   private updateLighting(): void {
     const t = this.time;
     // Sun angle: 0=midnight (below), 0.25=sunrise (horizon), 0.5=noon (top), 0.75=sunset
@@ -158,4 +185,9 @@ export class SkySystem {
   getTime(): number {
     return this.time;
   }
+
+  /** Jump to a time of day (solo /time set); rooms set it through setServerTime. */
+  setTime(dayTime: number): void {
+    this.time = advanceDayTime(dayTime, 0);
+  }
 }
@@ -1,3 +1,5 @@
+import { CHAT_MESSAGE_MAX_LENGTH } from '../../shared/ProtocolSchema';
+
 const MAX_VISIBLE_MESSAGES = 50;
 const FADE_TIMEOUT = 8000; // messages fade after 8s when chat is closed
 
@@ -11,10 +13,12 @@ export class ChatUI {
   private messagesDiv: HTMLDivElement;
   private inputDiv: HTMLDivElement;
   private input: HTMLInputElement;
+  private hintsDiv: HTMLDivElement;
   private messages: ChatEntry[] = [];
   private isOpen = false;
   private fadeTimer: number | null = null;
   private onSend: ((message: string) => void) | null = null;
+  private onComplete: ((text: string) => void) | null = null;
 
   constructor(parent: HTMLElement) {
     this.container = document.createElement('div');
@@ -52,7 +56,7 @@ export class ChatUI {
 
     this.input = document.createElement('input');
     this.input.type = 'text';
-    this.input.maxLength = 200;
+    this.input.maxLength = CHAT_MESSAGE_MAX_LENGTH;
     this.input.placeholder = 'Type a message...';
     this.input.style.cssText = `
       width: 100%;
@@ -72,9 +76,28 @@ export class ChatUI {
         this.submitMessage();
       } else if (e.key === 'Escape') {
         this.close();
+      } else if (e.key === 'Tab') {
+        e.preventDefault();
+        if (this.input.value.startsWith('/')) {
+          this.onComplete?.(this.input.value);
+        }
       }
     });
+    this.input.addEventListener('input', () => {
+      this.hintsDiv.textContent = '';
+    });
 
+    // Command completions and usage, above the input
+    this.hintsDiv = document.createElement('div');
+    this.hintsDiv.style.cssText = `
+      padding: 0 4px 4px;
+      color: #aaa;
+      font-size: 12px;
+      font-family: monospace;
+      white-space: pre-wrap;
+    `;
+
+    this.inputDiv.appendChild(this.hintsDiv);
     this.inputDiv.appendChild(this.input);
     this.container.appendChild(this.messagesDiv);
     this.container.appendChild(this.inputDiv);
@@ -87,9 +110,30 @@ export class ChatUI {
     this.onSend = callback;
   }
 
-  open(): void {
+  /** Called with the input when Tab is pressed on a "/" command. */
+  setOnComplete(callback: (text: string) => void): void {
+    this.onComplete = callback;
+  }
+
+  /** Show completions for `text`: a single one is filled in, several are listed. */
+  showHints(text: string, hints: string[], usage: string | null): void {
+    if (!this.isOpen || this.input.value !== text) return; // typed on since the request
+
+    if (hints.length === 1) {
+      const line = hints[0];
+      this.input.value = line === text ? line : line + ' ';
+      this.hintsDiv.textContent = usage ?? '';
+      return;
+    }
+    const options = hints.map(hint => hint.split(' ').pop()).join('  ');
+    this.hintsDiv.textContent = [options, usage].filter(Boolean).join('\n');
+  }
+
+  /** Open the input, optionally with text already typed (e.g. the start of a command). */
+  open(text = ''): void {
     if (this.isOpen) return;
     this.isOpen = true;
+    this.input.value = text;
     this.inputDiv.style.display = 'block';
     this.container.style.background = 'rgba(0, 0, 0, 0.4)';
     this.container.style.borderRadius = '6px';
@@ -102,6 +146,7 @@ export class ChatUI {
     this.isOpen = false;
     this.inputDiv.style.display = 'none';
     this.input.value = '';
+    this.hintsDiv.textContent = '';
     this.container.style.background = 'none';
     this.container.style.borderRadius = '0';
     this.input.blur();
@@ -124,6 +169,10 @@ export class ChatUI {
     this.addEntry(`<b>${this.escapeHtml(playerName)}</b>: ${this.escapeHtml(message)}`);
   }
 
+  addWhisper(playerName: string, message: string): void {
+    this.addEntry(`<i style="color: #c9a0ff;">${this.escapeHtml(playerName)} whispers: ${this.escapeHtml(message)}</i>`);
+  }
+
   addSystemMessage(message: string): void {
     this.addEntry(`<i style="color: #aaa;">${this.escapeHtml(message)}</i>`);
   }
@@ -1,7 +1,16 @@
+import { randomSeed, seedFromText } from '../../shared/MathUtils';
+import type { RoomListing, RoomOptions } from '../../shared/Protocol';
+import { DEFAULT_MAX_PLAYERS, MAX_PLAYERS_LIMIT, ROOM_NAME_MAX_LENGTH, ROOM_PASSWORD_MAX_LENGTH } from '../../shared/RoomOptions';
+import { fetchPublicRooms } from '../network/RoomDirectory';
+import { checkPlayerName, PLAYER_NAME_MAX_LENGTH } from '../../shared/PlayerNames';
+
 export interface ConnectionResult {
   mode: 'create' | 'join' | 'solo';
   playerName: string;
   roomCode?: string;
+  seed?: number; // solo only, random when omitted
+  roomOptions?: Partial<RoomOptions>; // create only
+  password?: string; // join only
 }
 
 export class ConnectionScreen {
@@ -38,6 +47,16 @@ export class ConnectionScreen {
     }
   }
 
+  /** For a client the server refused as incompatible: only a reload (fetching the current build) helps. */
+  showReloadPrompt(message: string): void {
+    this.show();
+    this.showError(message);
+    const reloadBtn = this.container.querySelector('#cs-reload') as HTMLButtonElement;
+    if (reloadBtn) {
+      reloadBtn.style.display = 'block';
+    }
+  }
+
   showRoomCode(code: string): void {
     const codeEl = this.container.querySelector('#cs-room-code-display') as HTMLDivElement;
     if (codeEl) {
@@ -70,12 +89,41 @@ export class ConnectionScreen {
           font-size: 14px;
         ">Voxel World</p>
 
+        <div style="
+          display: flex;
+          gap: 8px;
+          margin-bottom: 20px;
+        ">
+          <button id="cs-tab-play" style="
+            flex: 1;
+            padding: 8px;
+            background: rgba(255, 255, 255, 0.15);
+            border: 1px solid rgba(255, 255, 255, 0.15);
+            border-radius: 6px;
+            color: #fff;
+            font-size: 14px;
+            cursor: pointer;
+            font-family: 'Segoe UI', sans-serif;
+          ">Play</button>
+          <button id="cs-tab-browse" style="
+            flex: 1;
+            padding: 8px;
+            background: transparent;
+            border: 1px solid rgba(255, 255, 255, 0.15);
+            border-radius: 6px;
+            color: #fff;
+            font-size: 14px;
+            cursor: pointer;
+            font-family: 'Segoe UI', sans-serif;
+          ">Browse Rooms</button>
+        </div>
+
         <div style="margin-bottom: 20px;">
           <input
             id="cs-name"
             type="text"
             placeholder="Your name"
-            maxlength="16"
+            maxlength="${PLAYER_NAME_MAX_LENGTH}"
             style="
               width: 100%;
               padding: 10px 14px;
@@ -101,6 +149,21 @@ export class ConnectionScreen {
           border-radius: 4px;
         "></div>
 
+        <button id="cs-reload" style="
+          display: none;
+          width: 100%;
+          padding: 10px;
+          margin-bottom: 12px;
+          background: #4a7cff;
+          border: none;
+          border-radius: 6px;
+          color: #fff;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+          font-family: 'Segoe UI', sans-serif;
+        ">Reload page</button>
+
         <div id="cs-room-code-display" style="
           display: none;
           color: #6bff6b;
@@ -113,82 +176,217 @@ export class ConnectionScreen {
           letter-spacing: 4px;
         "></div>
 
-        <button id="cs-create" style="
-          width: 100%;
-          padding: 12px;
-          margin-bottom: 10px;
-          background: #4a7cff;
-          border: none;
-          border-radius: 6px;
-          color: #fff;
-          font-size: 15px;
-          font-weight: 600;
-          cursor: pointer;
-          font-family: 'Segoe UI', sans-serif;
-          transition: background 0.2s;
-        ">Create Room</button>
+        <div id="cs-panel-browse" style="display: none;">
+          <div id="cs-room-list" style="
+            max-height: 320px;
+            overflow-y: auto;
+            margin-bottom: 10px;
+            text-align: left;
+          "></div>
+          <button id="cs-refresh" style="
+            width: 100%;
+            padding: 10px;
+            background: rgba(255, 255, 255, 0.08);
+            border: 1px solid rgba(255, 255, 255, 0.15);
+            border-radius: 6px;
+            color: #ccc;
+            font-size: 14px;
+            cursor: pointer;
+            font-family: 'Segoe UI', sans-serif;
+          ">Refresh</button>
+        </div>
 
-        <div style="
-          display: flex;
-          gap: 8px;
-          margin-bottom: 10px;
-        ">
-          <input
-            id="cs-room-code"
-            type="text"
-            placeholder="Room code"
-            maxlength="6"
-            style="
-              flex: 1;
+        <div id="cs-panel-play">
+          <button id="cs-create" style="
+            width: 100%;
+            padding: 12px;
+            margin-bottom: 10px;
+            background: #4a7cff;
+            border: none;
+            border-radius: 6px;
+            color: #fff;
+            font-size: 15px;
+            font-weight: 600;
+            cursor: pointer;
+            font-family: 'Segoe UI', sans-serif;
+            transition: background 0.2s;
+          ">Create Room</button>
+
+          <details id="cs-room-options" style="
+            margin-bottom: 10px;
+            color: #aaa;
+            font-size: 13px;
+            text-align: left;
+          ">
+            <summary style="cursor: pointer; margin-bottom: 8px;">Room options</summary>
+            <div style="display: flex; flex-direction: column; gap: 8px;">
+              <input id="cs-opt-name" type="text" placeholder="Room name" maxlength="${ROOM_NAME_MAX_LENGTH}" style="
+                width: 100%;
+                padding: 8px 12px;
+                background: rgba(255, 255, 255, 0.08);
+                border: 1px solid rgba(255, 255, 255, 0.15);
+                border-radius: 6px;
+                color: #fff;
+                font-size: 14px;
+                outline: none;
+                box-sizing: border-box;
+                font-family: 'Segoe UI', sans-serif;
+              " />
+              <input id="cs-opt-password" type="password" placeholder="Password (optional)" maxlength="${ROOM_PASSWORD_MAX_LENGTH}" style="
+                width: 100%;
+                padding: 8px 12px;
+                background: rgba(255, 255, 255, 0.08);
+                border: 1px solid rgba(255, 255, 255, 0.15);
+                border-radius: 6px;
+                color: #fff;
+                font-size: 14px;
+                outline: none;
+                box-sizing: border-box;
+                font-family: 'Segoe UI', sans-serif;
+              " />
+              <label style="display: flex; align-items: center; justify-content: space-between;">
+                Max players
+                <input id="cs-opt-max-players" type="number" min="1" max="${MAX_PLAYERS_LIMIT}" value="${DEFAULT_MAX_PLAYERS}" style="
+                  width: 70px;
+                  padding: 6px 8px;
+                  background: rgba(255, 255, 255, 0.08);
+                  border: 1px solid rgba(255, 255, 255, 0.15);
+                  border-radius: 6px;
+                  color: #fff;
+                  font-size: 14px;
+                  font-family: 'Segoe UI', sans-serif;
+                " />
+              </label>
+              <label style="display: flex; align-items: center; gap: 8px;">
+                <input id="cs-opt-public" type="checkbox" checked /> Listed in Browse Rooms
+              </label>
+              <label style="display: flex; align-items: center; gap: 8px;">
+                <input id="cs-opt-npcs" type="checkbox" checked /> NPCs
+              </label>
+              <label style="display: flex; align-items: center; gap: 8px;">
+                <input id="cs-opt-daylight" type="checkbox" checked /> Daylight cycle
+              </label>
+            </div>
+          </details>
+
+          <div style="
+            display: flex;
+            gap: 8px;
+            margin-bottom: 10px;
+          ">
+            <input
+              id="cs-room-code"
+              type="text"
+              placeholder="Room code"
+              maxlength="6"
+              style="
+                flex: 1;
+                padding: 10px 14px;
+                background: rgba(255, 255, 255, 0.08);
+                border: 1px solid rgba(255, 255, 255, 0.15);
+                border-radius: 6px;
+                color: #fff;
+                font-size: 15px;
+                outline: none;
+                text-transform: uppercase;
+                letter-spacing: 2px;
+                font-family: 'Segoe UI', sans-serif;
+              "
+            />
+            <button id="cs-join" style="
+              padding: 10px 20px;
+              background: #4aaa4a;
+              border: none;
+              border-radius: 6px;
+              color: #fff;
+              font-size: 15px;
+              font-weight: 600;
+              cursor: pointer;
+              font-family: 'Segoe UI', sans-serif;
+              transition: background 0.2s;
+            ">Join</button>
+          </div>
+
+          <div style="margin-bottom: 10px;">
+            <input
+              id="cs-join-password"
+              type="password"
+              placeholder="Room password (if any)"
+              maxlength="${ROOM_PASSWORD_MAX_LENGTH}"
+              style="
+                width: 100%;
+                padding: 8px 12px;
+                background: rgba(255, 255, 255, 0.08);
+                border: 1px solid rgba(255, 255, 255, 0.15);
+                border-radius: 6px;
+                color: #fff;
+                font-size: 14px;
+                outline: none;
+                box-sizing: border-box;
+                font-family: 'Segoe UI', sans-serif;
+              "
+            />
+          </div>
+
+          <div style="
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            margin: 16px 0;
+          ">
+            <hr style="flex: 1; border: none; border-top: 1px solid rgba(255,255,255,0.1);" />
+            <span style="color: #666; font-size: 12px;">OR</span>
+            <hr style="flex: 1; border: none; border-top: 1px solid rgba(255,255,255,0.1);" />
+          </div>
+
+          <div style="
+            display: flex;
+            gap: 8px;
+            margin-bottom: 10px;
+          ">
+            <input
+              id="cs-seed"
+              type="text"
+              placeholder="Seed (empty = random)"
+              maxlength="32"
+              style="
+                flex: 1;
+                padding: 10px 14px;
+                background: rgba(255, 255, 255, 0.08);
+                border: 1px solid rgba(255, 255, 255, 0.15);
+                border-radius: 6px;
+                color: #fff;
+                font-size: 15px;
+                outline: none;
+                font-family: 'Segoe UI', sans-serif;
+              "
+            />
+            <button id="cs-seed-random" title="Random seed" style="
               padding: 10px 14px;
               background: rgba(255, 255, 255, 0.08);
               border: 1px solid rgba(255, 255, 255, 0.15);
               border-radius: 6px;
-              color: #fff;
+              color: #ccc;
               font-size: 15px;
-              outline: none;
-              text-transform: uppercase;
-              letter-spacing: 2px;
+              cursor: pointer;
               font-family: 'Segoe UI', sans-serif;
-            "
-          />
-          <button id="cs-join" style="
-            padding: 10px 20px;
-            background: #4aaa4a;
-            border: none;
+              transition: background 0.2s;
+            ">Random</button>
+          </div>
+
+          <button id="cs-solo" style="
+            width: 100%;
+            padding: 12px;
+            background: rgba(255, 255, 255, 0.08);
+            border: 1px solid rgba(255, 255, 255, 0.15);
             border-radius: 6px;
-            color: #fff;
+            color: #ccc;
             font-size: 15px;
-            font-weight: 600;
             cursor: pointer;
             font-family: 'Segoe UI', sans-serif;
             transition: background 0.2s;
-          ">Join</button>
+          ">Play Solo</button>
         </div>
-
-        <div style="
-          display: flex;
-          align-items: center;
-          gap: 12px;
-          margin: 16px 0;
-        ">
-          <hr style="flex: 1; border: none; border-top: 1px solid rgba(255,255,255,0.1);" />
-          <span style="color: #666; font-size: 12px;">OR</span>
-          <hr style="flex: 1; border: none; border-top: 1px solid rgba(255,255,255,0.1);" />
-        </div>
-
-        <button id="cs-solo" style="
-          width: 100%;
-          padding: 12px;
-          background: rgba(255, 255, 255, 0.08);
-          border: 1px solid rgba(255, 255, 255, 0.15);
-          border-radius: 6px;
-          color: #ccc;
-          font-size: 15px;
-          cursor: pointer;
-          font-family: 'Segoe UI', sans-serif;
-          transition: background 0.2s;
-        ">Play Solo</button>
       </div>
     `;
 
@@ -209,6 +407,13 @@ export class ConnectionScreen {
     const createBtn = this.container.querySelector('#cs-create') as HTMLButtonElement;
     const joinBtn = this.container.querySelector('#cs-join') as HTMLButtonElement;
     const soloBtn = this.container.querySelector('#cs-solo') as HTMLButtonElement;
+    const seedInput = this.container.querySelector('#cs-seed') as HTMLInputElement;
+    const seedRandomBtn = this.container.querySelector('#cs-seed-random') as HTMLButtonElement;
+    const joinPasswordInput = this.container.querySelector('#cs-join-password') as HTMLInputElement;
+    const playTab = this.container.querySelector('#cs-tab-play') as HTMLButtonElement;
+    const browseTab = this.container.querySelector('#cs-tab-browse') as HTMLButtonElement;
+    const refreshBtn = this.container.querySelector('#cs-refresh') as HTMLButtonElement;
+    const reloadBtn = this.container.querySelector('#cs-reload') as HTMLButtonElement;
 
     // Check URL for room parameter and auto-fill
     const urlParams = new URLSearchParams(window.location.search);
@@ -227,7 +432,7 @@ export class ConnectionScreen {
     createBtn.addEventListener('click', () => {
       const name = this.validateName(nameInput.value);
       if (!name) return;
-      this.onConnect?.({ mode: 'create', playerName: name });
+      this.onConnect?.({ mode: 'create', playerName: name, roomOptions: this.readRoomOptions() });
     });
 
     joinBtn.addEventListener('click', () => {
@@ -238,21 +443,48 @@ export class ConnectionScreen {
         this.showError('Please enter a valid room code');
         return;
       }
-      this.onConnect?.({ mode: 'join', playerName: name, roomCode: code });
+      const password = joinPasswordInput.value || undefined;
+      this.onConnect?.({ mode: 'join', playerName: name, roomCode: code, password });
+    });
+
+    playTab.addEventListener('click', () => this.showTab('play'));
+    browseTab.addEventListener('click', () => {
+      this.showTab('browse');
+      this.refreshRoomList();
+    });
+    refreshBtn.addEventListener('click', () => this.refreshRoomList());
+    reloadBtn.addEventListener('click', () => window.location.reload());
+
+    seedRandomBtn.addEventListener('click', () => {
+      seedInput.value = String(randomSeed());
     });
 
     soloBtn.addEventListener('click', () => {
       const name = this.validateName(nameInput.value);
       if (!name) return;
-      this.onConnect?.({ mode: 'solo', playerName: name });
+      // Numbers are used as-is, other text is hashed (same text, same world)
+      const seed = seedInput.value.trim() ? seedFromText(seedInput.value) : undefined;
+      this.onConnect?.({ mode: 'solo', playerName: name, seed });
     });
 
-    // Enter key on room code field triggers join
+    // Enter key on seed field starts solo
+    seedInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        soloBtn.click();
+      }
+    });
+
+    // Enter key on room code or password field triggers join
     codeInput.addEventListener('keydown', (e) => {
       if (e.key === 'Enter') {
         joinBtn.click();
       }
     });
+    joinPasswordInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        joinBtn.click();
+      }
+    });
 
     // Enter key on name field triggers create
     nameInput.addEventListener('keydown', (e) => {
@@ -262,14 +494,107 @@ export class ConnectionScreen {
     });
   }
 
+  private showTab(tab: 'play' | 'browse'): void {
+    const panels = { play: '#cs-panel-play', browse: '#cs-panel-browse' };
+    for (const [name, selector] of Object.entries(panels)) {
+      const active = name === tab;
+      (this.container.querySelector(selector) as HTMLDivElement).style.display = active ? 'block' : 'none';
+      const tabBtn = this.container.querySelector(`#cs-tab-${name}`) as HTMLButtonElement;
+      tabBtn.style.background = active ? 'rgba(255, 255, 255, 0.15)' : 'transparent';
+    }
+  }
+
+  private readRoomOptions(): Partial<RoomOptions> {
+    const value = (id: string) => (this.container.querySelector(id) as HTMLInputElement).value;
+    const checked = (id: string) => (this.container.querySelector(id) as HTMLInputElement).checked;
+    const maxPlayers = parseInt(value('#cs-opt-max-players'), 10);
+    return {
+      name: value('#cs-opt-name').trim() || undefined, // the server names it after the creator
+      password: value('#cs-opt-password'),
+      maxPlayers: Number.isNaN(maxPlayers) ? undefined : Math.min(MAX_PLAYERS_LIMIT, Math.max(1, maxPlayers)),
+      visibility: checked('#cs-opt-public') ? 'public' : 'private',
+      rules: {
+        npcs: checked('#cs-opt-npcs'),
+        daylightCycle: checked('#cs-opt-daylight'),
+      },
+    };
+  }
+
+  private async refreshRoomList(): Promise<void> {
+    const listEl = this.container.querySelector('#cs-room-list') as HTMLDivElement;
+    listEl.innerHTML = '<div style="color: #888; font-size: 13px; text-align: center;">Loading...</div>';
+
+    let rooms: RoomListing[];
+    try {
+      rooms = await fetchPublicRooms();
+    } catch {
+      listEl.innerHTML = '<div style="color: #ff6b6b; font-size: 13px; text-align: center;">Could not reach the server</div>';
+      return;
+    }
+
+    listEl.innerHTML = '';
+    if (rooms.length === 0) {
+      listEl.innerHTML = '<div style="color: #888; font-size: 13px; text-align: center;">No public rooms yet</div>';
+      return;
+    }
+
+    for (const room of rooms) {
+      const full = room.players >= room.maxPlayers;
+      const entry = document.createElement('div');
+      entry.style.cssText = `
+        padding: 10px 12px;
+        margin-bottom: 6px;
+        background: rgba(255, 255, 255, 0.06);
+        border-radius: 6px;
+        cursor: ${full ? 'default' : 'pointer'};
+        opacity: ${full ? 0.5 : 1};
+      `;
+
+      const title = document.createElement('div');
+      title.style.cssText = 'color: #fff; font-size: 14px; display: flex; justify-content: space-between;';
+      const nameEl = document.createElement('span');
+      nameEl.textContent = room.name; // player-chosen: never innerHTML
+      const countEl = document.createElement('span');
+      countEl.style.color = full ? '#ff6b6b' : '#6bff6b';
+      countEl.textContent = `${room.players}/${room.maxPlayers}`;
+      title.append(nameEl, countEl);
+
+      const details = document.createElement('div');
+      details.style.cssText = 'color: #888; font-size: 12px; margin-top: 2px;';
+      const tags = [room.code, room.rules.npcs ? 'NPCs' : 'no NPCs', room.rules.daylightCycle ? 'day/night' : 'fixed time'];
+      if (room.hasPassword) tags.push('password');
+      details.textContent = tags.join(' · ');
+
+      entry.append(title, details);
+      if (!full) {
+        entry.addEventListener('click', () => this.pickRoom(room));
+      }
+      listEl.appendChild(entry);
+    }
+  }
+
+  /** Fill in the join form for a room picked from the list. */
+  private pickRoom(room: RoomListing): void {
+    const codeInput = this.container.querySelector('#cs-room-code') as HTMLInputElement;
+    const passwordInput = this.container.querySelector('#cs-join-password') as HTMLInputElement;
+    const nameInput = this.container.querySelector('#cs-name') as HTMLInputElement;
+    codeInput.value = room.code;
+    passwordInput.value = '';
+    this.showTab('play');
+    if (room.hasPassword) {
+      passwordInput.focus();
+    } else if (nameInput.value.trim()) {
+      (this.container.querySelector('#cs-join') as HTMLButtonElement).click();
+    } else {
+      nameInput.focus();
+    }
+  }
+
   private validateName(raw: string): string | null {
     const name = raw.trim();
-    if (!name) {
-      this.showError('Please enter your name');
-      return null;
-    }
-    if (name.length < 2) {
-      this.showError('Name must be at least 2 characters');
+    const problem = checkPlayerName(name);
+    if (problem) {
+      this.showError(problem);
       return null;
     }
     // Clear previous errors
@@ -1,17 +1,6 @@
-import { BlockType, BLOCK_PROPERTIES } from '../../shared/BlockTypes';
+import { BlockType, BLOCK_PROPERTIES, HOTBAR_BLOCKS } from '../../shared/BlockTypes';
 import { Crosshair } from './Crosshair';
-
-const HOTBAR_BLOCKS: BlockType[] = [
-  BlockType.Grass,
-  BlockType.Dirt,
-  BlockType.Stone,
-  BlockType.Sand,
-  BlockType.Wood,
-  BlockType.Cobblestone,
-  BlockType.Planks,
-  BlockType.Glass,
-  BlockType.Brick,
-];
+import type { PlayerRole } from '../../shared/Protocol';
 
 export class HUD {
   private container: HTMLDivElement;
@@ -21,7 +10,11 @@ export class HUD {
   private fpsElement: HTMLDivElement;
   private coordsElement: HTMLDivElement;
   private roomCodeElement: HTMLDivElement;
+  private roomCode: string | null = null;
+  private roomName: string | undefined;
+  private role: PlayerRole = 'member';
   private debugVisible = false;
+  private seed: number | null = null;
   private frameCount = 0;
   private lastFpsTime = 0;
   private onBlockSelected: (blockType: BlockType) => void;
@@ -72,7 +65,7 @@ export class HUD {
 
     // Make room code clickable to copy full URL
     this.roomCodeElement.addEventListener('click', () => {
-      const code = this.roomCodeElement.textContent?.replace('Room: ', '') || '';
+      const code = this.roomCode;
       if (code) {
         // Copy the full URL with room parameter
         const url = new URL(window.location.href);
@@ -206,7 +199,11 @@ export class HUD {
     this.container.appendChild(bar);
   }
 
-  private selectSlot(index: number): void {
+  get selectedSlot(): number {
+    return this.selectedIndex;
+  }
+
+  selectSlot(index: number): void {
     this.hotbarSlots[this.selectedIndex].style.border = '2px solid rgba(50,50,50,0.8)';
     this.selectedIndex = index;
     this.hotbarSlots[index].style.border = '2px solid white';
@@ -226,15 +223,35 @@ export class HUD {
 
   updateCoords(x: number, y: number, z: number): void {
     if (this.debugVisible) {
-      this.coordsElement.textContent = `X: ${x.toFixed(1)} Y: ${y.toFixed(1)} Z: ${z.toFixed(1)}`;
+      const seedText = this.seed !== null ? `  Seed: ${this.seed}` : '';
+      this.coordsElement.textContent = `X: ${x.toFixed(1)} Y: ${y.toFixed(1)} Z: ${z.toFixed(1)}${seedText}`;
     }
   }
 
-  showRoomCode(code: string): void {
-    this.roomCodeElement.textContent = `Room: ${code}`;
+  setSeed(seed: number): void {
+    this.seed = seed;
+  }
+
+  showRoomCode(code: string, name?: string): void {
+    this.roomCode = code;
+    this.roomName = name;
+    this.updateRoomLabel();
     this.roomCodeElement.style.display = 'block';
   }
 
+  /** Shown next to the room code for hosts and operators. */
+  setRole(role: PlayerRole): void {
+    this.role = role;
+    this.updateRoomLabel();
+  }
+
+  private updateRoomLabel(): void {
+    if (!this.roomCode) return;
+    const label = this.roomName ? `${this.roomName} (${this.roomCode})` : `Room: ${this.roomCode}`;
+    const roleTag = { host: ' · Host', operator: ' · Op', member: '' }[this.role];
+    this.roomCodeElement.textContent = label + roleTag;
+  }
+
   show(): void {
     this.container.style.display = 'flex';
     this.crosshair.show();
@@ -0,0 +1,293 @@
+import type { PlayerRole } from '../../shared/Protocol';
+
+const REFRESH_INTERVAL = 500; // ms, while shown
+const ROLE_LABELS: Record<PlayerRole, string> = { host: 'Host', operator: 'Op', member: '' };
+
+export interface PlayerListPlayer {
+  id: string;
+  name: string;
+  role: PlayerRole;
+  hue: number; // body color, see hashToHue
+  ping: number | null; // round trip in ms, null until known
+  isSelf: boolean;
+}
+
+export interface PlayerListNpc {
+  name: string;
+  color: [number, number, number];
+  action: string;
+}
+
+/** What the list shows; read again every time it refreshes. */
+export interface PlayerListContents {
+  players: PlayerListPlayer[];
+  npcs: PlayerListNpc[]; // the ones in view
+  canTeleport: boolean;
+  canWhisper: boolean;
+}
+
+/** Everyone in the room while Tab is held. Clicking a name (with the mouse free) opens teleport/whisper actions. */
+export class PlayerList {
+  private container: HTMLDivElement;
+  private isVisible = false;
+  private keyHeld = false;
+  private selectedId: string | null = null; // player whose actions are open; keeps the list up after Tab is released
+  private refreshTimer: number | null = null;
+  private lastRendered = '';
+  private getContents: () => PlayerListContents;
+  private onTeleport: ((playerName: string) => void) | null = null;
+  private onWhisper: ((playerName: string) => void) | null = null;
+
+  constructor(parent: HTMLElement, getContents: () => PlayerListContents) {
+    this.getContents = getContents;
+
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: absolute;
+      top: 60px;
+      left: 50%;
+      transform: translateX(-50%);
+      min-width: 320px;
+      max-height: 70%;
+      overflow-y: auto;
+      display: none;
+      padding: 10px 12px;
+      background: rgba(0, 0, 0, 0.7);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 6px;
+      color: #fff;
+      font-size: 14px;
+      font-family: 'Segoe UI', sans-serif;
+      z-index: 60;
+    `;
+    parent.appendChild(this.container);
+
+    // The Tab keyup never arrives once the window loses focus
+    window.addEventListener('blur', () => {
+      this.keyHeld = false;
+      this.hide();
+    });
+    document.addEventListener('pointerlockchange', () => this.refresh());
+  }
+
+  setOnTeleport(callback: (playerName: string) => void): void {
+    this.onTeleport = callback;
+  }
+
+  setOnWhisper(callback: (playerName: string) => void): void {
+    this.onWhisper = callback;
+  }
+
+  get visible(): boolean {
+    return this.isVisible;
+  }
+
+  show(): void {
+    if (this.isVisible) return;
+    this.isVisible = true;
+    this.container.style.display = 'block';
+    this.lastRendered = '';
+    this.refresh();
+    this.refreshTimer = window.setInterval(() => this.refresh(), REFRESH_INTERVAL);
+  }
+
+  hide(): void {
+    if (!this.isVisible) return;
+    this.isVisible = false;
+    this.selectedId = null;
+    this.container.style.display = 'none';
+    if (this.refreshTimer !== null) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  handleKeyDown(e: KeyboardEvent): boolean {
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      if (!e.repeat) {
+        this.keyHeld = true;
+        this.show();
+      }
+      return true;
+    }
+    if (e.key === 'Escape' && this.selectedId) {
+      this.closeActions();
+      return true;
+    }
+    return false;
+  }
+
+  handleKeyUp(e: KeyboardEvent): void {
+    if (e.key !== 'Tab') return;
+    this.keyHeld = false;
+    if (!this.selectedId) this.hide();
+  }
+
+  private closeActions(): void {
+    this.selectedId = null;
+    if (this.keyHeld) {
+      this.refresh();
+    } else {
+      this.hide();
+    }
+  }
+
+  /** Rebuild the list if anything in it changed; rebuilding on every refresh would eat clicks. */
+  private refresh(): void {
+    if (!this.isVisible) return;
+    const contents = this.getContents();
+    const mouseFree = document.pointerLockElement === null;
+    const key = JSON.stringify([contents, this.selectedId, mouseFree]);
+    if (key === this.lastRendered) return;
+    this.lastRendered = key;
+    this.render(contents, mouseFree);
+  }
+
+  private render(contents: PlayerListContents, mouseFree: boolean): void {
+    this.container.replaceChildren();
+
+    const players = [...contents.players].sort((a, b) => a.name.localeCompare(b.name));
+    this.container.appendChild(this.createHeading(`Players (${players.length})`));
+    let anyActions = false;
+    for (const player of players) {
+      const actionable = this.canAct(player, contents);
+      anyActions ||= actionable;
+      this.container.appendChild(this.createPlayerRow(player, actionable && mouseFree));
+      if (actionable && player.id === this.selectedId) {
+        this.container.appendChild(this.createActions(player, contents));
+      }
+    }
+
+    if (contents.npcs.length > 0) {
+      this.container.appendChild(this.createHeading('NPCs nearby'));
+      for (const npc of contents.npcs) {
+        this.container.appendChild(this.createNpcRow(npc));
+      }
+    }
+
+    if (anyActions) {
+      const hint = document.createElement('div');
+      hint.style.cssText = 'margin-top: 8px; color: #888; font-size: 12px; text-align: center;';
+      hint.textContent = mouseFree ? 'Click a name to teleport or whisper' : 'Press Esc to free the mouse, then click a name';
+      this.container.appendChild(hint);
+    }
+  }
+
+  private canAct(player: PlayerListPlayer, contents: PlayerListContents): boolean {
+    return !player.isSelf && (contents.canTeleport || contents.canWhisper);
+  }
+
+  private createHeading(text: string): HTMLDivElement {
+    const heading = document.createElement('div');
+    heading.style.cssText = `
+      margin: 4px 0;
+      color: #aaa;
+      font-size: 12px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 1px;
+    `;
+    heading.textContent = text;
+    return heading;
+  }
+
+  private createRow(color: string, name: string): HTMLDivElement {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 3px 6px;
+      border-radius: 4px;
+    `;
+
+    const swatch = document.createElement('div');
+    swatch.style.cssText = `width: 12px; height: 12px; border-radius: 2px; flex-shrink: 0; background: ${color};`;
+    row.appendChild(swatch);
+
+    const nameEl = document.createElement('div');
+    nameEl.style.cssText = 'flex: 1; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;';
+    nameEl.textContent = name;
+    row.appendChild(nameEl);
+    return row;
+  }
+
+  private createPlayerRow(player: PlayerListPlayer, clickable: boolean): HTMLDivElement {
+    // Same HSL as RemotePlayer's body color
+    const row = this.createRow(`hsl(${Math.round(player.hue * 360)}, 60%, 50%)`, player.isSelf ? `${player.name} (you)` : player.name);
+
+    const role = document.createElement('div');
+    role.style.cssText = 'color: #ffd76b; font-size: 12px;';
+    role.textContent = ROLE_LABELS[player.role];
+    row.appendChild(role);
+
+    const ping = document.createElement('div');
+    ping.style.cssText = `width: 60px; text-align: right; font-family: monospace; color: ${this.pingColor(player.ping)};`;
+    ping.textContent = player.ping === null ? '—' : `${player.ping} ms`;
+    row.appendChild(ping);
+
+    if (clickable) {
+      row.style.cursor = 'pointer';
+      if (player.id === this.selectedId) row.style.background = 'rgba(255, 255, 255, 0.12)';
+      row.addEventListener('click', () => {
+        this.selectedId = this.selectedId === player.id ? null : player.id;
+        this.refresh();
+      });
+    }
+    return row;
+  }
+
+  private createNpcRow(npc: PlayerListNpc): HTMLDivElement {
+    const [r, g, b] = npc.color.map(c => Math.round(c * 255));
+    const row = this.createRow(`rgb(${r}, ${g}, ${b})`, npc.name);
+
+    const action = document.createElement('div');
+    action.style.cssText = 'color: #aaa; font-size: 12px; font-style: italic;';
+    action.textContent = npc.action;
+    row.appendChild(action);
+    return row;
+  }
+
+  private createActions(player: PlayerListPlayer, contents: PlayerListContents): HTMLDivElement {
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: flex; gap: 6px; padding: 2px 6px 6px 26px;';
+
+    const addButton = (label: string, onClick: () => void) => {
+      const button = document.createElement('button');
+      button.style.cssText = `
+        padding: 4px 10px;
+        background: rgba(255, 255, 255, 0.1);
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 4px;
+        color: #fff;
+        font-size: 12px;
+        cursor: pointer;
+        font-family: 'Segoe UI', sans-serif;
+      `;
+      button.textContent = label;
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        onClick();
+        this.selectedId = null;
+        this.hide();
+      });
+      actions.appendChild(button);
+    };
+
+    if (contents.canTeleport) {
+      addButton('Teleport to', () => this.onTeleport?.(player.name));
+    }
+    if (contents.canWhisper) {
+      addButton('Whisper', () => this.onWhisper?.(player.name));
+    }
+    return actions;
+  }
+
+  private pingColor(ping: number | null): string {
+    if (ping === null) return '#888';
+    if (ping < 100) return '#6bff6b';
+    if (ping < 250) return '#ffd76b';
+    return '#ff6b6b';
+  }
+}
@@ -0,0 +1,88 @@
+import type { NetworkClient } from '../network/NetworkClient';
+import type { ChunkManager } from './ChunkManager';
+import type { BlockAckMessage, BlockChange, MultiBlockChangeMessage } from '../../shared/Protocol';
+import type { BlockType } from '../../shared/BlockTypes';
+import { chunkToWorld, indexToLocal } from '../../shared/ChunkConstants';
+
+const ACK_TIMEOUT = 5000; // ms before an unanswered edit is rolled back
+
+interface PendingEdit {
+  x: number;
+  y: number;
+  z: number;
+  previous: BlockType;
+  sentAt: number;
+}
+
+/**
+ * Tracks block edits the player has already applied locally (predicted) until the server answers.
+ * While an edit is pending, other players' changes to that block are ignored: the server's answer
+ * carries the block as it stands after our edit, so the last answer for a block always settles it.
+ */
+export class BlockPredictor {
+  private nextSeq = 1;
+  private pending = new Map<number, PendingEdit>();
+
+  constructor(private network: NetworkClient, private chunkManager: ChunkManager) {
+    network.on('blockAck', (msg) => this.handleAck(msg));
+    network.on('multiBlockChange', (msg) => this.handleMultiBlockChange(msg));
+  }
+
+  /** Send an edit that is already shown locally; `previous` is restored if it can't be confirmed. */
+  submit(x: number, y: number, z: number, blockType: BlockType, previous: BlockType): void {
+    if (!this.network.isConnected) {
+      this.chunkManager.setBlock(x, y, z, previous);
+      return;
+    }
+
+    const seq = this.nextSeq++;
+    this.pending.set(seq, { x, y, z, previous, sentAt: performance.now() });
+    this.network.sendBlockUpdate(seq, x, y, z, blockType);
+  }
+
+  update(now: number = performance.now()): void {
+    for (const [seq, edit] of this.pending) {
+      if (now - edit.sentAt < ACK_TIMEOUT) continue;
+      this.pending.delete(seq);
+      if (!this.hasPendingAt(edit.x, edit.y, edit.z)) {
+        console.warn(`Block edit ${seq} at ${edit.x},${edit.y},${edit.z} was never acknowledged, rolling back`);
+        this.chunkManager.setBlock(edit.x, edit.y, edit.z, edit.previous);
+      }
+    }
+  }
+
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private handleAck(msg: BlockAckMessage): void {
+    if (!this.pending.delete(msg.seq)) return;
+
+    // A newer edit to the same block is still in flight: its answer will settle the block
+    if (this.hasPendingAt(msg.x, msg.y, msg.z)) return;
+
+    if (this.chunkManager.getBlock(msg.x, msg.y, msg.z) !== msg.blockType) {
+      this.chunkManager.setBlock(msg.x, msg.y, msg.z, msg.blockType as BlockType);
+    }
+  }
+
+  private handleMultiBlockChange(msg: MultiBlockChangeMessage): void {
+    const { wx, wy, wz } = chunkToWorld(msg.cx, msg.cy, msg.cz);
+    const changes: BlockChange[] = [];
+    for (let i = 0; i + 1 < msg.blocks.length; i += 2) {
+      const { lx, ly, lz } = indexToLocal(msg.blocks[i]);
+      const x = wx + lx;
+      const y = wy + ly;
+      const z = wz + lz;
+      if (!this.hasPendingAt(x, y, z)) changes.push({ x, y, z, blockType: msg.blocks[i + 1] });
+    }
+    this.chunkManager.setBlocks(changes);
+  }
+
+  private hasPendingAt(x: number, y: number, z: number): boolean {
+    for (const edit of this.pending.values()) {
+      if (edit.x === x && edit.y === y && edit.z === z) return true;
+    }
+    return false;
+  }
+}
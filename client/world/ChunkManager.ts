@@ -2,20 +2,24 @@ import * as THREE from 'three';
 import { TerrainGenerator } from '../../server/world/TerrainGenerator';
 import { meshChunk, type ChunkNeighbors } from './ChunkMesher';
 import { WorkerPool, type WorkerMeshResult } from './WorkerPool';
+import type { ChunkStreamer } from './ChunkStreamer';
 import {
   CHUNK_SIZE,
   CHUNK_HEIGHT,
   VERTICAL_CHUNKS,
+  RENDER_DISTANCE,
+  BLOCKS_PER_CHUNK,
   blockIndex,
   worldToChunk,
   chunkKey,
 } from '../../shared/ChunkConstants';
 import { BlockType } from '../../shared/BlockTypes';
-
-const RENDER_DISTANCE = 4;
+import type { BlockChange } from '../../shared/Protocol';
 
 interface ChunkEntry {
   data: Uint8Array;
+  loaded: boolean; // false while waiting for the server to send the chunk
+  placeholder: THREE.LineSegments | null;
   mesh: THREE.Mesh | null;
   waterMesh: THREE.Mesh | null;
   meshing: boolean; // true if a worker is currently meshing this chunk
@@ -29,12 +33,27 @@ export class ChunkManager {
   private opaqueMaterial: THREE.MeshLambertMaterial;
   private waterMaterial: THREE.MeshLambertMaterial;
   private workerPool: WorkerPool;
+  private streamer: ChunkStreamer | null;
+  private placeholderGeometry: THREE.EdgesGeometry;
+  private placeholderMaterial: THREE.LineBasicMaterial;
   private playerX = 0;
   private playerZ = 0;
-
-  constructor(scene: THREE.Scene, seed: number) {
+  private lastPcx = NaN;
+  private lastPcz = NaN;
+
+  /**
+   * Without a streamer, chunks are generated locally from the seed (solo mode).
+   * With one, chunks are requested from the server and shown as placeholders until they arrive.
+   */
+  constructor(scene: THREE.Scene, seed: number, streamer: ChunkStreamer | null = null) {
     this.scene = scene;
     this.terrainGenerator = new TerrainGenerator(seed);
+    this.streamer = streamer;
+    if (streamer) {
+      streamer.onChunk = (cx, cy, cz, data) => this.receiveChunk(cx, cy, cz, data);
+    }
+    this.placeholderGeometry = new THREE.EdgesGeometry(new THREE.BoxGeometry(CHUNK_SIZE, CHUNK_HEIGHT, CHUNK_SIZE));
+    this.placeholderMaterial = new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.15 });
     this.opaqueMaterial = new THREE.MeshLambertMaterial({ vertexColors: true });
     this.waterMaterial = new THREE.MeshLambertMaterial({
       vertexColors: true,
@@ -51,6 +70,11 @@ export class ChunkManager {
     const pcx = Math.floor(playerX / CHUNK_SIZE);
     const pcz = Math.floor(playerZ / CHUNK_SIZE);
 
+    // Re-prioritize pending requests when the player enters a new chunk
+    const movedChunk = pcx !== this.lastPcx || pcz !== this.lastPcz;
+    this.lastPcx = pcx;
+    this.lastPcz = pcz;
+
     const neededKeys = new Set<string>();
 
     for (let dx = -RENDER_DISTANCE; dx <= RENDER_DISTANCE; dx++) {
@@ -61,8 +85,11 @@ export class ChunkManager {
           const key = chunkKey(cx, cy, cz);
           neededKeys.add(key);
 
-          if (!this.chunks.has(key)) {
+          const entry = this.chunks.get(key);
+          if (!entry) {
             this.loadChunk(cx, cy, cz);
+          } else if (!entry.loaded && movedChunk) {
+            this.streamer?.request(cx, cy, cz, this.chunkPriority(cx, cz));
           }
         }
       }
@@ -71,6 +98,8 @@ export class ChunkManager {
     // Unload far chunks
     for (const [key, entry] of this.chunks) {
       if (!neededKeys.has(key)) {
+        this.streamer?.cancel(key);
+        this.removePlaceholder(entry);
         if (entry.mesh) {
           this.scene.remove(entry.mesh);
           entry.mesh.geometry.dispose();
@@ -82,24 +111,88 @@ export class ChunkManager {
         this.chunks.delete(key);
       }
     }
+
+    this.streamer?.update();
   }
 
   private loadChunk(cx: number, cy: number, cz: number): void {
     const key = chunkKey(cx, cy, cz);
+
+    if (this.streamer) {
+      const entry: ChunkEntry = {
+        data: new Uint8Array(BLOCKS_PER_CHUNK),
+        loaded: false,
+        placeholder: this.createPlaceholder(cx, cy, cz),
+        mesh: null,
+        waterMesh: null,
+        meshing: false,
+        generation: 0,
+      };
+      this.chunks.set(key, entry);
+      this.streamer.request(cx, cy, cz, this.chunkPriority(cx, cz));
+      return;
+    }
+
     const data = this.terrainGenerator.generateChunk(cx, cy, cz);
-    const entry: ChunkEntry = { data, mesh: null, waterMesh: null, meshing: false, generation: 0 };
+    const entry: ChunkEntry = { data, loaded: true, placeholder: null, mesh: null, waterMesh: null, meshing: false, generation: 0 };
     this.chunks.set(key, entry);
     this.createChunkMeshAsync(key, data, cx, cy, cz);
   }
 
+  private receiveChunk(cx: number, cy: number, cz: number, data: Uint8Array): void {
+    const key = chunkKey(cx, cy, cz);
+    const entry = this.chunks.get(key);
+    if (!entry || entry.loaded) return;
+
+    entry.data = data;
+    entry.loaded = true;
+    this.removePlaceholder(entry);
+    this.createChunkMeshAsync(key, data, cx, cy, cz);
+
+    // Neighbors were meshed against an empty border; remesh the loaded ones
+    const neighborKeys = [
+      chunkKey(cx + 1, cy, cz), chunkKey(cx - 1, cy, cz),
+      chunkKey(cx, cy + 1, cz), chunkKey(cx, cy - 1, cz),
+      chunkKey(cx, cy, cz + 1), chunkKey(cx, cy, cz - 1),
+    ];
+    for (const neighborKey of neighborKeys) {
+      const neighbor = this.chunks.get(neighborKey);
+      if (!neighbor?.loaded) continue;
+      const [ncx, ncy, ncz] = neighborKey.split(',').map(Number);
+      this.createChunkMeshAsync(neighborKey, neighbor.data, ncx, ncy, ncz);
+    }
+  }
+
+  private createPlaceholder(cx: number, cy: number, cz: number): THREE.LineSegments {
+    const placeholder = new THREE.LineSegments(this.placeholderGeometry, this.placeholderMaterial);
+    placeholder.position.set(
+      cx * CHUNK_SIZE + CHUNK_SIZE / 2,
+      cy * CHUNK_HEIGHT + CHUNK_HEIGHT / 2,
+      cz * CHUNK_SIZE + CHUNK_SIZE / 2,
+    );
+    this.scene.add(placeholder);
+    return placeholder;
+  }
+
+  private removePlaceholder(entry: ChunkEntry): void {
+    if (entry.placeholder) {
+      this.scene.remove(entry.placeholder);
+      entry.placeholder = null;
+    }
+  }
+
   private getNeighborData(cx: number, cy: number, cz: number): ChunkNeighbors {
+    const loadedData = (key: string) => {
+      const entry = this.chunks.get(key);
+      return entry?.loaded ? entry.data : undefined;
+    };
     return {
-      px: this.chunks.get(chunkKey(cx + 1, cy, cz))?.data,
-      nx: this.chunks.get(chunkKey(cx - 1, cy, cz))?.data,
-      py: this.chunks.get(chunkKey(cx, cy + 1, cz))?.data,
-      ny: this.chunks.get(chunkKey(cx, cy - 1, cz))?.data,
-      pz: this.chunks.get(chunkKey(cx, cy, cz + 1))?.data,
-      nz: this.chunks.get(chunkKey(cx, cy, cz - 1))?.data,
+      px: loadedData(chunkKey(cx + 1, cy, cz)),
+      nx: loadedData(chunkKey(cx - 1, cy, cz)),
+      py: loadedData(chunkKey(cx, cy + 1, cz)),
+      ny: loadedData(chunkKey(cx, cy - 1, cz)),
+      pz: loadedData(chunkKey(cx, cy, cz + 1)),
+      nz: loadedData(chunkKey(cx, cy, cz - 1)),
     };
   }
 
@@ -226,9 +319,23 @@ export class ChunkManager {
     this.applyMeshResult(entry, meshData, cx, cy, cz);
   }
 
+  /**
+   * Fetch every loaded chunk again: block changes broadcast while the connection was down never arrived.
+   * The old data stays in place (meshed and solid) until the fresh copy replaces it.
+   */
+  resync(): void {
+    if (!this.streamer) return;
+    for (const [key, entry] of this.chunks) {
+      if (!entry.loaded) continue;
+      entry.loaded = false;
+      const [cx, cy, cz] = key.split(',').map(Number);
+      this.streamer.request(cx, cy, cz, this.chunkPriority(cx, cz));
+    }
+  }
+
   rebuildChunkMesh(key: string): void {
     const entry = this.chunks.get(key);
-    if (!entry) return;
+    if (!entry || !entry.loaded) return;
 
     const parts = key.split(',').map(Number);
     // For block edits, use synchronous meshing for immediate feedback
@@ -242,25 +349,56 @@ export class ChunkManager {
     return entry.data[blockIndex(lx, ly, lz)];
   }
 
+  /** True once the chunk containing this position has its real data (always true in solo mode once generated). */
+  isLoaded(wx: number, wy: number, wz: number): boolean {
+    const { cx, cy, cz } = worldToChunk(Math.floor(wx), Math.floor(wy), Math.floor(wz));
+    return this.chunks.get(chunkKey(cx, cy, cz))?.loaded ?? false;
+  }
+
+  /** True when every vertical chunk of the column containing this position is loaded. */
+  isColumnLoaded(wx: number, wz: number): boolean {
+    for (let cy = 0; cy < VERTICAL_CHUNKS; cy++) {
+      if (!this.isLoaded(wx, cy * CHUNK_HEIGHT, wz)) return false;
+    }
+    return true;
+  }
+
   setBlock(wx: number, wy: number, wz: number, type: BlockType): void {
-    const { cx, cy, cz, lx, ly, lz } = worldToChunk(wx, wy, wz);
-    const key = chunkKey(cx, cy, cz);
-    const entry = this.chunks.get(key);
-    if (!entry) return;
+    this.setBlocks([{ x: wx, y: wy, z: wz, blockType: type }]);
+  }
 
-    entry.data[blockIndex(lx, ly, lz)] = type;
-    this.rebuildChunkMesh(key);
+  /** Apply several block changes, rebuilding each affected chunk mesh once. */
+  setBlocks(changes: BlockChange[]): void {
+    const rebuild = new Set<string>();
+    for (const change of changes) {
+      const { cx, cy, cz, lx, ly, lz } = worldToChunk(change.x, change.y, change.z);
+      const key = chunkKey(cx, cy, cz);
+      const entry = this.chunks.get(key);
+      // Edits to chunks still in flight are already included in the server's response
+      if (!entry || !entry.loaded) continue;
+
+      const index = blockIndex(lx, ly, lz);
+      if (entry.data[index] === change.blockType) continue; // e.g. our own edit coming back
+      entry.data[index] = change.blockType;
+      rebuild.add(key);
+
+      // Rebuild neighbor chunks if block is on a border
+      if (lx === 0) rebuild.add(chunkKey(cx - 1, cy, cz));
+      if (lx === CHUNK_SIZE - 1) rebuild.add(chunkKey(cx + 1, cy, cz));
+      if (ly === 0) rebuild.add(chunkKey(cx, cy - 1, cz));
+      if (ly === CHUNK_HEIGHT - 1) rebuild.add(chunkKey(cx, cy + 1, cz));
+      if (lz === 0) rebuild.add(chunkKey(cx, cy, cz - 1));
+      if (lz === CHUNK_SIZE - 1) rebuild.add(chunkKey(cx, cy, cz + 1));
+    }
 
-    // Rebuild neighbor chunks if block is on a border
-    if (lx === 0) this.rebuildChunkMesh(chunkKey(cx - 1, cy, cz));
-    if (lx === CHUNK_SIZE - 1) this.rebuildChunkMesh(chunkKey(cx + 1, cy, cz));
-    if (ly === 0) this.rebuildChunkMesh(chunkKey(cx, cy - 1, cz));
-    if (ly === CHUNK_HEIGHT - 1) this.rebuildChunkMesh(chunkKey(cx, cy + 1, cz));
-    if (lz === 0) this.rebuildChunkMesh(chunkKey(cx, cy, cz - 1));
-    if (lz === CHUNK_SIZE - 1) this.rebuildChunkMesh(chunkKey(cx, cy, cz + 1));
+    for (const key of rebuild) {
+      this.rebuildChunkMesh(key);
+    }
   }
 
   dispose(): void {
     this.workerPool.dispose();
+    this.placeholderGeometry.dispose();
+    this.placeholderMaterial.dispose();
   }
 }
@@ -0,0 +1,115 @@
+import type { NetworkClient } from '../network/NetworkClient';
+import type { ChunkDataMessage } from '../../shared/Protocol';
+import { chunkKey } from '../../shared/ChunkConstants';
+
+const MAX_IN_FLIGHT = 16;
+const REQUEST_TIMEOUT = 5000; // ms
+const MAX_ATTEMPTS = 4;
+
+interface ChunkRequest {
+  key: string;
+  cx: number;
+  cy: number;
+  cz: number;
+  priority: number;
+  attempts: number;
+  sentAt: number; // 0 while queued
+}
+
+/**
+ * Requests chunk data from the server in multiplayer.
+ * Keeps a priority queue of wanted chunks, caps the number of requests in flight,
+ * and re-sends requests that time out. Chunks that exhaust their attempts are dropped
+ * until they are requested again.
+ */
+export class ChunkStreamer {
+  private queue: ChunkRequest[] = [];
+  private inFlight = new Map<string, ChunkRequest>();
+  onChunk: ((cx: number, cy: number, cz: number, data: Uint8Array) => void) | null = null;
+
+  constructor(private network: NetworkClient) {
+    network.on('chunkData', (msg) => this.handleChunkData(msg));
+
+    // Requests sent on a dead socket will never be answered: resend them right away
+    network.on('connected', () => {
+      for (const request of this.inFlight.values()) {
+        request.sentAt = 0;
+        this.enqueue(request);
+      }
+      this.inFlight.clear();
+    });
+  }
+
+  /** Queue a chunk, or update its priority if it is already queued. */
+  request(cx: number, cy: number, cz: number, priority: number): void {
+    const key = chunkKey(cx, cy, cz);
+    if (this.inFlight.has(key)) return;
+
+    const queued = this.queue.findIndex(r => r.key === key);
+    if (queued !== -1) {
+      const [existing] = this.queue.splice(queued, 1);
+      existing.priority = priority;
+      this.enqueue(existing);
+      return;
+    }
+
+    this.enqueue({ key, cx, cy, cz, priority, attempts: 0, sentAt: 0 });
+  }
+
+  /** Forget a chunk that is no longer needed; a late response is ignored. */
+  cancel(key: string): void {
+    this.inFlight.delete(key);
+    const queued = this.queue.findIndex(r => r.key === key);
+    if (queued !== -1) this.queue.splice(queued, 1);
+  }
+
+  isPending(key: string): boolean {
+    return this.inFlight.has(key) || this.queue.some(r => r.key === key);
+  }
+
+  update(now: number = performance.now()): void {
+    // Retry timed-out requests
+    for (const [key, request] of this.inFlight) {
+      if (now - request.sentAt < REQUEST_TIMEOUT) continue;
+      this.inFlight.delete(key);
+      if (request.attempts >= MAX_ATTEMPTS) {
+        console.warn(`Chunk ${key} timed out after ${request.attempts} attempts`);
+        continue;
+      }
+      request.sentAt = 0;
+      this.enqueue(request);
+    }
+
+    if (!this.network.isConnected) return;
+
+    while (this.inFlight.size < MAX_IN_FLIGHT && this.queue.length > 0) {
+      const request = this.queue.shift()!;
+      request.attempts++;
+      request.sentAt = now;
+      this.inFlight.set(request.key, request);
+      this.network.requestChunk(request.cx, request.cy, request.cz);
+    }
+  }
+
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  private enqueue(request: ChunkRequest): void {
+    // Insert sorted by priority (higher priority first)
+    let i = 0;
+    while (i < this.queue.length && this.queue[i].priority >= request.priority) i++;
+    this.queue.splice(i, 0, request);
+  }
+
+  private handleChunkData(msg: ChunkDataMessage): void {
+    const key = chunkKey(msg.cx, msg.cy, msg.cz);
+    if (!this.inFlight.delete(key)) return; // cancelled or never requested
+
+    this.onChunk?.(msg.cx, msg.cy, msg.cz, msg.data);
+  }
+}
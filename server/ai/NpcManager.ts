@@ -1,14 +1,14 @@
 import { type BehaviorNode, type Blackboard, Selector } from './BehaviorTree.js';
 import { createWanderBehavior } from './behaviors/WanderBehavior.js';
-import { createBuildBehavior, type BlockPlacedCallback } from './behaviors/BuildBehavior.js';
+import { createBuildBehavior, getBuildTemplate, type BlockPlacedCallback, type BuildTemplate } from './behaviors/BuildBehavior.js';
 import { createGatherBehavior, type BlockRemovedCallback } from './behaviors/GatherBehavior.js';
 import type { WorldManager } from '../world/WorldManager.js';
+import type { NpcRecord } from '../world/WorldSave.js';
 import { BlockType } from '../../shared/BlockTypes.js';
 import { getHeightAt } from '../world/TerrainGenerator.js';
-import type { NpcUpdateMessage } from '../../shared/Protocol.js';
-import { MessageType } from '../../shared/Protocol.js';
+import type { NpcProfile } from '../../shared/Protocol.js';
 
-const TICK_INTERVAL = 500; // 2Hz
+export const NPC_TICK_INTERVAL = 500; // ms, 2Hz; the room's tick loop steps NPCs at this rate
 const NPC_COUNT = 4;
 const SPAWN_RADIUS = 30;
 
@@ -21,8 +21,23 @@ const NPC_COLORS: [number, number, number][] = [
   [0.7, 0.3, 0.7],
 ];
 
+export interface NpcBlockChangedCallback {
+  (x: number, y: number, z: number, type: BlockType, previous: BlockType, npcName: string): void;
+}
+
+/** An NPC as players see it. */
+export interface NpcView extends NpcProfile {
+  x: number;
+  y: number;
+  z: number;
+  rx: number;
+  ry: number;
+  action: string;
+}
+
 interface NpcState {
   id: string;
+  entityId: number; // position in the list; NPCs are never removed
   name: string;
   color: [number, number, number];
   blackboard: Blackboard;
@@ -31,94 +46,168 @@ interface NpcState {
 
 export class NpcManager {
   private npcs: NpcState[] = [];
-  private tickTimer: ReturnType<typeof setInterval> | null = null;
-  private lastTickTime = Date.now();
-  private onBlockChanged: (x: number, y: number, z: number, type: BlockType) => void;
+  private onBlockChanged: NpcBlockChangedCallback;
 
+  /**
+   * Pass saved records to restore NPCs (and their unfinished builds) instead of spawning new ones;
+   * an empty list means no NPCs.
+   */
   constructor(
     private world: WorldManager,
     private seed: number,
-    onBlockChanged: (x: number, y: number, z: number, type: BlockType) => void,
+    onBlockChanged: NpcBlockChangedCallback,
+    saved?: NpcRecord[],
   ) {
     this.onBlockChanged = onBlockChanged;
-    this.spawnNpcs();
+    if (saved) {
+      this.restoreNpcs(saved);
+    } else {
+      this.spawnNpcs();
+    }
   }
 
-  private spawnNpcs(): void {
-    for (let i = 0; i < NPC_COUNT; i++) {
-      const angle = (i / NPC_COUNT) * Math.PI * 2;
-      const spawnX = Math.floor(Math.cos(angle) * SPAWN_RADIUS);
-      const spawnZ = Math.floor(Math.sin(angle) * SPAWN_RADIUS);
-      const spawnY = getHeightAt(spawnX, spawnZ, this.seed) + 1;
+  private createBehaviorTree(npcName: string): BehaviorNode {
+    const onBlockPlaced: BlockPlacedCallback = (x, y, z, type, previous) => {
+      this.onBlockChanged(x, y, z, type, previous, npcName);
+    };
 
-      const name = NPC_NAMES[i % NPC_NAMES.length];
-      const color = NPC_COLORS[i % NPC_COLORS.length];
-      const id = `npc_${i}_${name.toLowerCase()}`;
+    const onBlockRemoved: BlockRemovedCallback = (x, y, z, previous) => {
+      this.onBlockChanged(x, y, z, BlockType.Air, previous, npcName);
+    };
+
+    return new Selector([
+      createBuildBehavior(this.world, onBlockPlaced),
+      createGatherBehavior(this.world, onBlockRemoved),
+      createWanderBehavior(this.world),
+    ]);
+  }
 
+  private restoreNpcs(saved: NpcRecord[]): void {
+    for (const record of saved) {
       const blackboard: Blackboard = {
-        x: spawnX + 0.5,
-        y: spawnY,
-        z: spawnZ + 0.5,
-        rx: 0,
-        ry: 0,
+        x: record.x,
+        y: record.y,
+        z: record.z,
+        rx: record.rx,
+        ry: record.ry,
         action: 'idle',
       };
-
-      const onBlockPlaced: BlockPlacedCallback = (x, y, z, type) => {
-        this.onBlockChanged(x, y, z, type);
-      };
-
-      const onBlockRemoved: BlockRemovedCallback = (x, y, z) => {
-        this.onBlockChanged(x, y, z, BlockType.Air);
-      };
-
-      const behaviorTree = new Selector([
-        createBuildBehavior(this.world, onBlockPlaced),
-        createGatherBehavior(this.world, onBlockRemoved),
-        createWanderBehavior(this.world),
-      ]);
-
-      this.npcs.push({ id, name, color, blackboard, behaviorTree });
+      for (const [type, count] of Object.entries(record.gathered)) {
+        blackboard[`gathered_${type}`] = count;
+      }
+
+      const template = record.buildPlan ? getBuildTemplate(record.buildPlan.template) : undefined;
+      if (record.buildPlan && template) {
+        blackboard.buildPlan = {
+          template,
+          originX: record.buildPlan.originX,
+          originY: record.buildPlan.originY,
+          originZ: record.buildPlan.originZ,
+          blockIndex: record.buildPlan.blockIndex,
+          placeTimer: 0,
+        };
+        blackboard.action = 'building ' + template.name;
+      }
+
+      this.npcs.push({
+        id: record.id,
+        entityId: this.npcs.length,
+        name: record.name,
+        color: record.color,
+        blackboard,
+        behaviorTree: this.createBehaviorTree(record.name),
+      });
     }
   }
 
-  start(): void {
-    if (this.tickTimer) return;
-    this.lastTickTime = Date.now();
-    this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL);
-  }
-
-  stop(): void {
-    if (this.tickTimer) {
-      clearInterval(this.tickTimer);
-      this.tickTimer = null;
+  private spawnNpcs(): void {
+    for (let i = 0; i < NPC_COUNT; i++) {
+      const angle = (i / NPC_COUNT) * Math.PI * 2;
+      const spawnX = Math.floor(Math.cos(angle) * SPAWN_RADIUS);
+      const spawnZ = Math.floor(Math.sin(angle) * SPAWN_RADIUS);
+      const spawnY = getHeightAt(spawnX, spawnZ, this.seed) + 1;
+      this.spawnNpc(spawnX + 0.5, spawnY, spawnZ + 0.5);
     }
   }
 
-  private tick(): void {
-    const now = Date.now();
-    const dt = (now - this.lastTickTime) / 1000;
-    this.lastTickTime = now;
+  /** Add an NPC at a position (feet); unnamed ones take the next name in the list. Returns its name. */
+  spawnNpc(x: number, y: number, z: number, name?: string): string {
+    const index = this.npcs.length;
+    const npcName = name ?? NPC_NAMES[index % NPC_NAMES.length];
+    const id = `npc_${index}_${npcName.toLowerCase()}`;
+    const color = NPC_COLORS[index % NPC_COLORS.length];
+
+    const blackboard: Blackboard = { x, y, z, rx: 0, ry: 0, action: 'idle' };
+    this.npcs.push({
+      id,
+      entityId: index,
+      name: npcName,
+      color,
+      blackboard,
+      behaviorTree: this.createBehaviorTree(npcName),
+    });
+    return npcName;
+  }
 
+  /** Advance every NPC's behavior by a fixed step, in seconds. */
+  tick(dt: number): void {
     for (const npc of this.npcs) {
       npc.behaviorTree.tick(npc.blackboard, dt);
     }
   }
 
-  getNpcUpdateMessage(): NpcUpdateMessage {
-    return {
-      type: MessageType.NpcUpdate,
-      npcs: this.npcs.map(npc => ({
+  serialize(): NpcRecord[] {
+    return this.npcs.map(npc => {
+      const bb = npc.blackboard;
+
+      const gathered: Record<string, number> = {};
+      for (const key of Object.keys(bb)) {
+        if (key.startsWith('gathered_')) {
+          gathered[key.substring('gathered_'.length)] = bb[key];
+        }
+      }
+
+      const plan = bb.buildPlan;
+      return {
         id: npc.id,
         name: npc.name,
-        x: npc.blackboard.x,
-        y: npc.blackboard.y,
-        z: npc.blackboard.z,
-        rx: npc.blackboard.rx ?? 0,
-        ry: npc.blackboard.ry ?? 0,
-        action: npc.blackboard.action ?? 'idle',
         color: npc.color,
-      })),
-    };
+        x: bb.x,
+        y: bb.y,
+        z: bb.z,
+        rx: bb.rx ?? 0,
+        ry: bb.ry ?? 0,
+        gathered,
+        buildPlan: plan
+          ? {
+              template: (plan.template as BuildTemplate).name,
+              originX: plan.originX,
+              originY: plan.originY,
+              originZ: plan.originZ,
+              blockIndex: plan.blockIndex,
+            }
+          : null,
+      };
+    });
+  }
+
+  /** Feet positions of every NPC. */
+  getNpcPositions(): { x: number; y: number; z: number }[] {
+    return this.npcs.map(npc => ({ x: npc.blackboard.x, y: npc.blackboard.y, z: npc.blackboard.z }));
+  }
+
+  /** Every NPC with where it is and what it's doing. */
+  getNpcViews(): NpcView[] {
+    return this.npcs.map(npc => ({
+      entityId: npc.entityId,
+      name: npc.name,
+      color: npc.color,
+      x: npc.blackboard.x,
+      y: npc.blackboard.y,
+      z: npc.blackboard.z,
+      rx: npc.blackboard.rx ?? 0,
+      ry: npc.blackboard.ry ?? 0,
+      action: npc.blackboard.action ?? 'idle',
+    }));
   }
 }
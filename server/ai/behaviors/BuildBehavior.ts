@@ -2,6 +2,7 @@ import { type BehaviorNode, type Blackboard, NodeStatus, Sequence, Leaf } from '
 import { findPath, type PathNode } from '../Pathfinding.js';
 import { BlockType } from '../../../shared/BlockTypes.js';
 import type { WorldManager } from '../../world/WorldManager.js';
+import type { BlockBox } from '../../../shared/Protocol.js';
 
 const PLACE_INTERVAL = 0.5; // seconds per block
 const WALK_SPEED = 2;
@@ -13,7 +14,7 @@ interface BuildBlock {
   type: BlockType;
 }
 
-interface BuildTemplate {
+export interface BuildTemplate {
   name: string;
   blocks: BuildBlock[];
 }
@@ -86,8 +87,27 @@ const WALL: BuildTemplate = {
 
 const TEMPLATES = [SMALL_HOUSE, TOWER, WALL];
 
+/** Look up a template by name, e.g. to resume a saved build plan. */
+export function getBuildTemplate(name: string): BuildTemplate | undefined {
+  return TEMPLATES.find(t => t.name === name);
+}
+
+/** The blocks a template covers when built at an origin. */
+function templateBox(template: BuildTemplate, ox: number, oy: number, oz: number): BlockBox {
+  const box = { minX: Infinity, minY: Infinity, minZ: Infinity, maxX: -Infinity, maxY: -Infinity, maxZ: -Infinity };
+  for (const block of template.blocks) {
+    box.minX = Math.min(box.minX, ox + block.dx);
+    box.minY = Math.min(box.minY, oy + block.dy);
+    box.minZ = Math.min(box.minZ, oz + block.dz);
+    box.maxX = Math.max(box.maxX, ox + block.dx);
+    box.maxY = Math.max(box.maxY, oy + block.dy);
+    box.maxZ = Math.max(box.maxZ, oz + block.dz);
+  }
+  return box;
+}
+
 export interface BlockPlacedCallback {
-  (x: number, y: number, z: number, type: BlockType): void;
+  (x: number, y: number, z: number, type: BlockType, previous: BlockType): void;
 }
 
 export function createBuildBehavior(
@@ -113,6 +133,9 @@ export function createBuildBehavior(
         }
       }
 
+      // Stay out of claims that keep NPC builders away
+      if (!world.claims.allowsNpcIn('build', templateBox(template, ox, oy, oz))) return NodeStatus.FAILURE;
+
       bb.buildPlan = {
         template,
         originX: ox,
@@ -160,9 +183,12 @@ export function createBuildBehavior(
         return NodeStatus.RUNNING;
       }
 
-      // Place the block
-      world.setBlock(wx, wy, wz, block.type);
-      onBlockPlaced(wx, wy, wz, block.type);
+      // Place the block, skipping it if a claim was made there since the build started
+      if (world.claims.allowsNpc('build', wx, wy, wz)) {
+        const previous = world.getBlock(wx, wy, wz);
+        world.setBlock(wx, wy, wz, block.type);
+        onBlockPlaced(wx, wy, wz, block.type, previous);
+      }
 
       plan.blockIndex++;
       plan.placeTimer = PLACE_INTERVAL;
@@ -8,7 +8,7 @@ const WALK_SPEED = 2;
 const MINE_TIME = 2; // seconds
 
 export interface BlockRemovedCallback {
-  (x: number, y: number, z: number): void;
+  (x: number, y: number, z: number, previous: BlockType): void;
 }
 
 function findNearbyBlock(
@@ -27,7 +27,7 @@ function findNearbyBlock(
         const x = cx + dx;
         const y = cy + dy;
         const z = cz + dz;
-        if (world.getBlock(x, y, z) === targetType) {
+        if (world.getBlock(x, y, z) === targetType && world.claims.allowsNpc('gather', x, y, z)) {
           // Need a walkable position adjacent to this block
           const positions = [
             { x: x + 1, y, z },
@@ -159,9 +159,10 @@ export function createGatherBehavior(
         ];
 
         for (const cp of checkPositions) {
-          if (world.getBlock(cp.x, cp.y, cp.z) === bb.gatherTarget) {
+          // A claim may have been made around the block since it was picked
+          if (world.getBlock(cp.x, cp.y, cp.z) === bb.gatherTarget && world.claims.allowsNpc('gather', cp.x, cp.y, cp.z)) {
             world.setBlock(cp.x, cp.y, cp.z, BlockType.Air);
-            onBlockRemoved(cp.x, cp.y, cp.z);
+            onBlockRemoved(cp.x, cp.y, cp.z, bb.gatherTarget);
             break;
           }
         }
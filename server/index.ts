@@ -5,7 +5,8 @@ import { NetworkManager } from './network/NetworkManager.js';
 
 const app = express();
 const server = createServer(app);
-const wss = new WebSocketServer({ server });
+// Hard cap far above any valid message; NetworkManager refuses anything over MAX_CLIENT_MESSAGE_BYTES
+const wss = new WebSocketServer({ server, maxPayload: 64 * 1024 });
 
 const PORT = process.env.PORT || 3001;
 
@@ -26,6 +27,12 @@ app.get('/api/health', (_req, res) => {
   });
 });
 
+// Public rooms for the connection screen's browser (served from another origin in development)
+app.get('/api/rooms', (_req, res) => {
+  res.set('Access-Control-Allow-Origin', '*');
+  res.json({ rooms: networkManager.listPublicRooms() });
+});
+
 server.listen(PORT, () => {
   console.log(`RouCraft server running on port ${PORT}`);
 });
@@ -0,0 +1,43 @@
+import { blockIndex, chunkKey, worldToChunk } from '../../shared/ChunkConstants.js';
+import { MessageType, type MultiBlockChangeMessage } from '../../shared/Protocol.js';
+
+interface ChunkChanges {
+  cx: number;
+  cy: number;
+  cz: number;
+  blocks: Map<number, number>; // block index -> type, the latest change wins
+}
+
+/** Block changes waiting to be broadcast, coalesced per block and grouped per chunk. */
+export class BlockChangeBuffer {
+  private chunks = new Map<string, ChunkChanges>();
+
+  add(x: number, y: number, z: number, blockType: number): void {
+    const { cx, cy, cz, lx, ly, lz } = worldToChunk(x, y, z);
+    const key = chunkKey(cx, cy, cz);
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = { cx, cy, cz, blocks: new Map() };
+      this.chunks.set(key, chunk);
+    }
+    chunk.blocks.set(blockIndex(lx, ly, lz), blockType);
+  }
+
+  get isEmpty(): boolean {
+    return this.chunks.size === 0;
+  }
+
+  /** One message per chunk with everything added since the last drain. */
+  drain(): MultiBlockChangeMessage[] {
+    const messages: MultiBlockChangeMessage[] = [];
+    for (const { cx, cy, cz, blocks } of this.chunks.values()) {
+      const pairs: number[] = [];
+      for (const [index, blockType] of blocks) {
+        pairs.push(index, blockType);
+      }
+      messages.push({ type: MessageType.MultiBlockChange, cx, cy, cz, blocks: pairs });
+    }
+    this.chunks.clear();
+    return messages;
+  }
+}
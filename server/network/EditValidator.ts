@@ -0,0 +1,72 @@
+import { BlockType, BLOCK_PROPERTIES, HOTBAR_BLOCKS } from '../../shared/BlockTypes.js';
+import { WORLD_HEIGHT } from '../../shared/ChunkConstants.js';
+import { MAX_REACH, EYE_HEIGHT, overlapsBody } from '../../shared/PlayerConstants.js';
+
+// Slack on top of the client's reach: the server only knows the player's last
+// reported position, and the client measures reach to the block face, not its center.
+const REACH_TOLERANCE = 2;
+
+const EDIT_RATE = 8; // sustained edits per second
+const EDIT_BURST = 16; // edits allowed back to back
+
+export interface BodyPosition {
+  x: number;
+  y: number; // feet
+  z: number;
+}
+
+/** Per-player token bucket limiting how fast block edits are accepted. */
+export class EditRateLimiter {
+  private tokens = EDIT_BURST;
+  private updatedAt = Date.now();
+
+  tryTake(now: number = Date.now()): boolean {
+    this.tokens = Math.min(EDIT_BURST, this.tokens + (now - this.updatedAt) / 1000 * EDIT_RATE);
+    this.updatedAt = now;
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+}
+
+export function isValidBlockPosition(x: number, y: number, z: number): boolean {
+  return Number.isInteger(x) && Number.isInteger(y) && Number.isInteger(z) &&
+    y >= 0 && y < WORLD_HEIGHT;
+}
+
+/**
+ * Check a block edit from a player at `editor` against what a legitimate client could do.
+ * `bodies` are the players and NPCs a placed block must not overlap.
+ * Returns the reason the edit is refused, or null if it is allowed.
+ */
+export function validateBlockEdit(
+  editor: BodyPosition,
+  x: number, y: number, z: number,
+  blockType: number,
+  bodies: BodyPosition[],
+): string | null {
+  if (!isValidBlockPosition(x, y, z)) return 'invalid position';
+
+  // Players can only break blocks or place what their hotbar offers
+  if (blockType !== BlockType.Air && !HOTBAR_BLOCKS.includes(blockType)) {
+    return `block type ${blockType} is not placeable`;
+  }
+
+  const dx = x + 0.5 - editor.x;
+  const dy = y + 0.5 - (editor.y + EYE_HEIGHT);
+  const dz = z + 0.5 - editor.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (distance > MAX_REACH + REACH_TOLERANCE) {
+    return `out of reach (${distance.toFixed(1)} blocks)`;
+  }
+
+  if (blockType !== BlockType.Air && BLOCK_PROPERTIES[blockType as BlockType].solid) {
+    for (const body of bodies) {
+      if (overlapsBody(body.x, body.y, body.z, x, y, z, x + 1, y + 1, z + 1)) {
+        return 'overlaps a player or NPC';
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,38 @@
+import { MessageType, PROTOCOL_VERSION, type HelloMessage, type ProtocolFeature } from '../../shared/Protocol.js';
+
+/** Everything this server can speak. */
+export const SERVER_FEATURES: readonly ProtocolFeature[] = ['binaryChunks', 'binarySnapshots', 'chunkCompression'];
+
+/** Features the server has no fallback for: chunks and movement only go out as binary frames. */
+const REQUIRED_FEATURES: readonly ProtocolFeature[] = ['binaryChunks', 'binarySnapshots'];
+
+/** Reported to clients that never sent a Hello: they were loaded before the handshake existed. */
+export const MISSING_HELLO_ERROR = 'This page is out of date. Reload it to keep playing.';
+
+/** Build of this server, from BUILD_ID at deploy time. */
+export const SERVER_BUILD_ID = process.env.BUILD_ID || 'dev';
+
+/** Whether a parsed message is meant as a Hello, before it is checked against its schema. */
+export function isHello(message: unknown): boolean {
+  return typeof message === 'object' && message !== null && (message as { type?: unknown }).type === MessageType.Hello;
+}
+
+/** Why a client can't play on this server, or null if it can. */
+export function checkHello(hello: HelloMessage): string | null {
+  if (hello.protocolVersion < PROTOCOL_VERSION) {
+    return 'This page is out of date. Reload it to keep playing.';
+  }
+  if (hello.protocolVersion > PROTOCOL_VERSION) {
+    return 'This page is newer than the server, which is probably being updated. Reload in a minute.';
+  }
+  const missing = REQUIRED_FEATURES.filter(feature => !hello.features.includes(feature));
+  if (missing.length > 0) {
+    return `This page is missing features the server needs (${missing.join(', ')}). Reload it to keep playing.`;
+  }
+  return null;
+}
+
+/** Features both the client and this server support. */
+export function agreedFeatures(hello: HelloMessage): ProtocolFeature[] {
+  return SERVER_FEATURES.filter(feature => hello.features.includes(feature));
+}
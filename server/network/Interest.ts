@@ -0,0 +1,26 @@
+import { CHUNK_SIZE, RENDER_DISTANCE } from '../../shared/ChunkConstants.js';
+
+// Interest management: each player subscribes to the chunk columns around it and only hears
+// about block changes, players and NPCs there. The radius is one column wider than what
+// clients keep loaded, so a client never holds a chunk whose changes it isn't sent.
+
+export const INTEREST_DISTANCE = RENDER_DISTANCE + 1; // chunk columns
+
+/** The chunk column a subscription is centered on. */
+export interface Subscription {
+  cx: number;
+  cz: number;
+}
+
+export function subscriptionAt(x: number, z: number): Subscription {
+  return { cx: Math.floor(x / CHUNK_SIZE), cz: Math.floor(z / CHUNK_SIZE) };
+}
+
+export function isChunkSubscribed(subscription: Subscription, cx: number, cz: number): boolean {
+  return Math.abs(cx - subscription.cx) <= INTEREST_DISTANCE && Math.abs(cz - subscription.cz) <= INTEREST_DISTANCE;
+}
+
+/** Whether a world position (e.g. a player or NPC) is in the subscribed area. */
+export function isInView(subscription: Subscription, x: number, z: number): boolean {
+  return isChunkSubscribed(subscription, Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+}
@@ -0,0 +1,99 @@
+import type { ModerationAction, PlayerPermissions, PlayerRole } from '../../shared/Protocol.js';
+import { ROLE_RANK } from '../../shared/Roles.js';
+import type { RoomMeta } from '../world/WorldSave.js';
+
+const HOST_ONLY_ACTIONS: ModerationAction[] = ['op', 'deop'];
+
+export function getRole(meta: RoomMeta, identity: string): PlayerRole {
+  if (meta.hostIdentity === identity) return 'host';
+  if (meta.operators.includes(identity)) return 'operator';
+  return 'member';
+}
+
+export function getPermissions(meta: RoomMeta, identity: string): PlayerPermissions {
+  return {
+    role: getRole(meta, identity),
+    muted: meta.muted.includes(identity),
+    canBuild: !meta.buildDenied.includes(identity),
+  };
+}
+
+export function isBanned(meta: RoomMeta, identity: string): boolean {
+  return meta.banned.some(entry => entry.identity === identity);
+}
+
+/**
+ * Check that `actor` may apply `action` to `target` in this room.
+ * Returns the reason it is refused, or null if it is allowed.
+ */
+export function checkModeration(meta: RoomMeta, actor: string, target: string, action: ModerationAction): string | null {
+  const actorRole = getRole(meta, actor);
+  const targetRole = getRole(meta, target);
+
+  if (actorRole === 'member') return 'Only the host and operators can moderate';
+  if (HOST_ONLY_ACTIONS.includes(action) && actorRole !== 'host') return 'Only the host can change operators';
+  if (actor === target) return 'You cannot moderate yourself';
+  if (ROLE_RANK[targetRole] >= ROLE_RANK[actorRole]) return `You cannot moderate the ${targetRole}`;
+
+  switch (action) {
+    case 'op': return targetRole === 'operator' ? 'Already an operator' : null;
+    case 'deop': return targetRole !== 'operator' ? 'Not an operator' : null;
+    case 'ban': return isBanned(meta, target) ? 'Already banned' : null;
+    case 'unban': return !isBanned(meta, target) ? 'Not banned' : null;
+    case 'mute': return meta.muted.includes(target) ? 'Already muted' : null;
+    case 'unmute': return !meta.muted.includes(target) ? 'Not muted' : null;
+    case 'denyBuild': return meta.buildDenied.includes(target) ? 'Already not allowed to build' : null;
+    case 'allowBuild': return !meta.buildDenied.includes(target) ? 'Already allowed to build' : null;
+    case 'kick': return null;
+    default: return 'Unknown action';
+  }
+}
+
+/** Chat line announcing an action to the room. */
+export function describeModeration(actorName: string, targetName: string, action: ModerationAction): string {
+  switch (action) {
+    case 'kick': return `${actorName} kicked ${targetName}`;
+    case 'ban': return `${actorName} banned ${targetName}`;
+    case 'unban': return `${actorName} unbanned ${targetName}`;
+    case 'mute': return `${actorName} muted ${targetName}`;
+    case 'unmute': return `${actorName} unmuted ${targetName}`;
+    case 'denyBuild': return `${actorName} took away ${targetName}'s permission to build`;
+    case 'allowBuild': return `${actorName} allowed ${targetName} to build`;
+    case 'op': return `${actorName} made ${targetName} an operator`;
+    case 'deop': return `${actorName} removed ${targetName} as operator`;
+  }
+}
+
+/** Record a checked action in the room metadata; kicking is left to the caller. */
+export function applyModeration(meta: RoomMeta, target: string, targetName: string, action: ModerationAction): void {
+  const without = (list: string[]) => list.filter(identity => identity !== target);
+
+  switch (action) {
+    case 'op':
+      meta.operators.push(target);
+      break;
+    case 'deop':
+      meta.operators = without(meta.operators);
+      break;
+    case 'ban':
+      meta.banned.push({ identity: target, name: targetName });
+      break;
+    case 'unban':
+      meta.banned = meta.banned.filter(entry => entry.identity !== target);
+      break;
+    case 'mute':
+      meta.muted.push(target);
+      break;
+    case 'unmute':
+      meta.muted = without(meta.muted);
+      break;
+    case 'denyBuild':
+      meta.buildDenied.push(target);
+      break;
+    case 'allowBuild':
+      meta.buildDenied = without(meta.buildDenied);
+      break;
+    case 'kick':
+      break;
+  }
+}
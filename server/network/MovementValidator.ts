@@ -0,0 +1,167 @@
+import { BlockType, BLOCK_PROPERTIES } from '../../shared/BlockTypes.js';
+import { PLAYER_WIDTH, SPRINT_SPEED, MAX_JUMP_HEIGHT, JUMP_IMPULSE, GRAVITY, bodyCollides } from '../../shared/PlayerConstants.js';
+import type { WorldManager } from '../world/WorldManager.js';
+
+// Horizontal movement is paid from a budget that refills at sprint speed (plus slack),
+// so updates bunched up by the network don't look like speeding.
+const SPEED_TOLERANCE = 1.3;
+const MAX_MOVE_BUDGET = SPRINT_SPEED * SPEED_TOLERANCE; // one second of movement
+
+const JUMP_TOLERANCE = 0.5; // blocks above the highest possible jump
+const MAX_AIR_TIME = (2 * JUMP_IMPULSE) / -GRAVITY + 0.5; // seconds airborne without ever falling below the takeoff height
+
+const COLLISION_MARGIN = 0.1; // shrink the body so grazing a wall isn't noclip
+const SWEEP_STEP = 0.25; // blocks between collision samples along a move
+
+const CORRECTION_ACCEPT_DISTANCE = 1.5; // an update this close to a correction means the client applied it
+const CORRECTION_RESEND_INTERVAL = 1000; // ms
+
+export type MovementVerdict =
+  | { kind: 'accepted' }
+  | { kind: 'rejected'; reason: string } // correct the client and flag the player
+  | { kind: 'pending' }; // stale update sent before a correction arrived, drop it
+
+/**
+ * Tracks one player's last accepted position and checks each reported move
+ * against speed, jump height, air time and block collisions.
+ */
+export class MovementValidator {
+  private x: number;
+  private y: number;
+  private z: number;
+  private groundY: number; // height the player last stood at
+  private airborneSince: number | null = null;
+  private budget = MAX_MOVE_BUDGET;
+  private lastUpdate: number;
+  private anchored = false; // the first update is only speed-checked (clients pick their own spawn height)
+  private correctionSentAt: number | null = null;
+  violations = 0;
+
+  constructor(x: number, y: number, z: number, now: number = Date.now()) {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.groundY = y;
+    this.lastUpdate = now;
+  }
+
+  /** Last accepted position: where a corrected client is sent back to. */
+  get position(): { x: number; y: number; z: number } {
+    return { x: this.x, y: this.y, z: this.z };
+  }
+
+  /** Move the player on the server's authority (e.g. a teleport); the client still has to follow. */
+  reset(x: number, y: number, z: number, now: number = Date.now()): void {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.groundY = y;
+    this.airborneSince = null;
+    this.budget = MAX_MOVE_BUDGET;
+    this.lastUpdate = now;
+    this.correctionSentAt = now;
+  }
+
+  check(world: WorldManager, x: number, y: number, z: number, now: number = Date.now()): MovementVerdict {
+    const elapsed = Math.max(0, now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+    this.budget = Math.min(MAX_MOVE_BUDGET, this.budget + elapsed * SPRINT_SPEED * SPEED_TOLERANCE);
+
+    if (this.correctionSentAt !== null) {
+      if (this.distanceTo(x, y, z) > CORRECTION_ACCEPT_DISTANCE) {
+        if (now - this.correctionSentAt < CORRECTION_RESEND_INTERVAL) return { kind: 'pending' };
+        return this.reject('ignored position correction', now);
+      }
+      this.correctionSentAt = null;
+    }
+
+    // Speed
+    const horizontal = Math.hypot(x - this.x, z - this.z);
+    this.budget -= horizontal;
+    if (this.budget < 0) {
+      this.budget = 0;
+      return this.reject(`moving too fast (${horizontal.toFixed(1)} blocks)`, now);
+    }
+
+    // Noclip: sample the move so walls can't be skipped between updates. The real path
+    // between two updates is a curve, so accept it if it is clear going up/down first or sideways first.
+    // Moves out of a block (one appeared around the player) are always allowed.
+    if (this.anchored && !this.collides(world, this.x, this.y, this.z)) {
+      const verticalFirst = () =>
+        this.sweepClear(world, this.x, this.y, this.z, this.x, y, this.z) &&
+        this.sweepClear(world, this.x, y, this.z, x, y, z);
+      const sidewaysFirst = () =>
+        this.sweepClear(world, this.x, this.y, this.z, x, this.y, z) &&
+        this.sweepClear(world, x, this.y, z, x, y, z);
+      if (!verticalFirst() && !sidewaysFirst()) {
+        return this.reject('moving through blocks', now);
+      }
+    }
+
+    // Flying
+    const onGround = this.isSupported(world, x, y, z);
+    if (this.anchored) {
+      if (y > this.y && y > this.groundY + MAX_JUMP_HEIGHT + JUMP_TOLERANCE) {
+        return this.reject(`rising ${(y - this.groundY).toFixed(1)} blocks above the ground`, now);
+      }
+      if (!onGround && this.airborneSince !== null &&
+          (now - this.airborneSince) / 1000 > MAX_AIR_TIME && y >= this.groundY) {
+        this.airborneSince = now;
+        return this.reject('hovering', now);
+      }
+    }
+
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    if (!this.anchored) {
+      this.anchored = true;
+      this.groundY = y;
+    }
+    if (onGround) {
+      this.groundY = y;
+      this.airborneSince = null;
+    } else if (this.airborneSince === null) {
+      this.airborneSince = now;
+    }
+    return { kind: 'accepted' };
+  }
+
+  private reject(reason: string, now: number): MovementVerdict {
+    this.violations++;
+    this.correctionSentAt = now;
+    return { kind: 'rejected', reason };
+  }
+
+  private distanceTo(x: number, y: number, z: number): number {
+    return Math.hypot(x - this.x, y - this.y, z - this.z);
+  }
+
+  private collides(world: WorldManager, x: number, y: number, z: number): boolean {
+    return bodyCollides(x, y, z, (bx, by, bz) => world.getBlock(bx, by, bz), COLLISION_MARGIN);
+  }
+
+  /** Check that the body can travel in a straight line from (ax, ay, az) to (bx, by, bz). */
+  private sweepClear(world: WorldManager, ax: number, ay: number, az: number, bx: number, by: number, bz: number): boolean {
+    const distance = Math.hypot(bx - ax, by - ay, bz - az);
+    const steps = Math.max(1, Math.ceil(distance / SWEEP_STEP));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      if (this.collides(world, ax + (bx - ax) * t, ay + (by - ay) * t, az + (bz - az) * t)) return false;
+    }
+    return true;
+  }
+
+  /** Check for a solid block under any part of the player's feet. */
+  private isSupported(world: WorldManager, x: number, y: number, z: number): boolean {
+    const halfWidth = PLAYER_WIDTH / 2;
+    const by = Math.floor(y - 0.05);
+    for (let bx = Math.floor(x - halfWidth); bx <= Math.floor(x + halfWidth); bx++) {
+      for (let bz = Math.floor(z - halfWidth); bz <= Math.floor(z + halfWidth); bz++) {
+        const block = world.getBlock(bx, by, bz);
+        if (block !== BlockType.Air && BLOCK_PROPERTIES[block].solid) return true;
+      }
+    }
+    return false;
+  }
+}
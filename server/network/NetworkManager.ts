@@ -1,31 +1,104 @@
 import { WebSocket, WebSocketServer } from 'ws';
+import { randomBytes } from 'crypto';
 import { WorldManager } from '../world/WorldManager.js';
-import { NpcManager } from '../ai/NpcManager.js';
+import { NpcManager, NPC_TICK_INTERVAL } from '../ai/NpcManager.js';
+import { WorldClock } from '../world/WorldClock.js';
+import { EditRateLimiter, isValidBlockPosition, validateBlockEdit } from './EditValidator.js';
+import { MovementValidator } from './MovementValidator.js';
+import { BlockChangeBuffer } from './BlockChangeBuffer.js';
+import { isChunkSubscribed, isInView, subscriptionAt, type Subscription } from './Interest.js';
+import { SnapshotHistory } from './SnapshotHistory.js';
+import { TickLoop, TICK_INTERVAL } from './TickLoop.js';
+import { emptySnapshot, toEntityState } from '../../shared/SnapshotCodec.js';
+import { checkClientMessage, MAX_CLIENT_MESSAGE_BYTES } from '../../shared/ProtocolSchema.js';
+import { checkPlayerName } from '../../shared/PlayerNames.js';
+import { hashPassword, RoomPasswordGuard } from './RoomPasswords.js';
+import { agreedFeatures, checkHello, isHello, MISSING_HELLO_ERROR, SERVER_BUILD_ID } from './Handshake.js';
+import { getPermissions, getRole, isBanned, checkModeration, applyModeration, describeModeration } from './Moderation.js';
+import { getClaimAccess, summarizeClaim } from '../world/Claims.js';
+import { EditJournal, npcActor, type EditFilter } from '../world/EditJournal.js';
+import {
+  worldExists,
+  saveRoomMeta,
+  listRoomMetas,
+  defaultRoomMeta,
+  type RoomMeta,
+  type LevelMeta,
+  type PlayerRecord,
+  type ClaimRecord,
+} from '../world/WorldSave.js';
 import {
   MessageType,
+  PROTOCOL_VERSION,
   ClientMessage,
+  BlockUpdateMessage,
+  PlayerUpdateMessage,
   ServerMessage,
   RoomCreatedMessage,
   RoomJoinedMessage,
   RoomErrorMessage,
-  ChunkDataMessage,
-  BlockChangedMessage,
+  ProtocolErrorMessage,
+  HelloMessage,
+  WelcomeMessage,
+  PongMessage,
+  ProtocolFeature,
+  ProtocolErrorCode,
+  BlockAckMessage,
   PlayerJoinedMessage,
   PlayerLeftMessage,
-  PlayerMovedMessage,
+  PlayerEnteredViewMessage,
+  PlayerLeftViewMessage,
+  NpcInfoMessage,
+  NpcProfile,
   ChatBroadcastMessage,
+  WorldInfoMessage,
+  PositionCorrectionMessage,
+  ResumedMessage,
+  ResumeFailedMessage,
+  RoomOptions,
+  RoomListing,
+  ModerationAction,
+  PlayerSummary,
+  PlayerStatusMessage,
+  KickedMessage,
+  SystemNoticeMessage,
+  CommandHintsMessage,
+  SelectSlotMessage,
+  ClaimsMessage,
 } from '../../shared/Protocol.js';
-import { BlockType } from '../../shared/BlockTypes.js';
-import { WORLD_HEIGHT } from '../../shared/ChunkConstants.js';
+import { CommandError, type CommandContext, type CommandEditFilter, type CommandPlayer } from '../../shared/Commands.js';
+import { createCommandRegistry } from '../../shared/BuiltinCommands.js';
+import { normalizeRoomOptions } from '../../shared/RoomOptions.js';
+import { DEFAULT_CLAIM_FLAGS } from '../../shared/Claims.js';
+import { hasRole } from '../../shared/Roles.js';
+import { encodeChunkFrame } from '../../shared/ChunkCodec.js';
+import { randomSeed } from '../../shared/MathUtils.js';
+import { BlockType, HOTBAR_BLOCKS, isReplaceable } from '../../shared/BlockTypes.js';
+import { VERTICAL_CHUNKS } from '../../shared/ChunkConstants.js';
 
 export interface PlayerInfo {
   ws: WebSocket;
+  entityId: number; // identifies the player in snapshots
+  identity: string;
   name: string;
   x: number;
   y: number;
   z: number;
   rx: number;
   ry: number;
+  slot: number;
+  editLimiter: EditRateLimiter;
+  movement: MovementValidator;
+  sessionToken: string;
+  resumeTimer: ReturnType<typeof setTimeout> | null; // set while disconnected, removes the player when it fires
+  subscription: Subscription; // the area this player hears about
+  visiblePlayers: Set<string>; // ids of the players it has in view
+  visibleNpcs: Set<number>; // entity IDs of the NPCs it has in view
+  snapshots: SnapshotHistory; // movement sent to this player's client
+  rtt: number; // round trip in ms as the server last measured it, 0 until it has
+  pingSent: { payload: Buffer; at: number } | null; // WebSocket ping waiting for its pong
+  queuedUpdate: QueuedInput | null; // this player's movement waiting for the next tick
+  queuedEdits: number; // block edits waiting for the next tick
 }
 
 export interface Room {
@@ -33,15 +106,37 @@ export interface Room {
   players: Map<string, PlayerInfo>;
   world: WorldManager;
   seed: number;
+  meta: RoomMeta;
+  playerRecords: Map<string, PlayerRecord>; // by identity, including players who left
   npcManager: NpcManager;
-  npcBroadcastTimer: ReturnType<typeof setInterval> | null;
-  autoSaveTimer: ReturnType<typeof setInterval> | null;
+  journal: EditJournal;
+  blockChanges: BlockChangeBuffer; // broadcast once per tick
+  clock: WorldClock;
+  nextEntityId: number;
+  inputs: QueuedInput[]; // applied at the start of the next tick, in arrival order; capped per player
+  loop: TickLoop;
+}
+
+/** Client messages that change the simulation, so they are applied by the room's tick. */
+type SimulationInput = BlockUpdateMessage | PlayerUpdateMessage;
+
+interface QueuedInput {
+  ws: WebSocket;
+  roomCode: string; // who sent it, checked again when it is applied
+  playerId: string;
+  message: SimulationInput;
 }
 
-const MAX_PLAYERS_PER_ROOM = 8;
 const ROOM_CODE_LENGTH = 6;
 const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no ambiguous chars (0/O, 1/I)
-const AUTO_SAVE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const AUTO_SAVE_TICKS = (5 * 60 * 1000) / TICK_INTERVAL; // 5 minutes
+const WORLD_INFO_TICKS = (10 * 1000) / TICK_INTERVAL; // clients smooth out drift between updates
+const NPC_TICKS = NPC_TICK_INTERVAL / TICK_INTERVAL;
+const PING_TICKS = (2 * 1000) / TICK_INTERVAL; // how often every player's round trip is measured
+const MAX_QUEUED_EDITS = 16; // per player and tick; more than that is refused
+const MAX_IDENTITY_LENGTH = 64;
+const RESUME_GRACE = 30 * 1000; // how long a dropped player stays in the room waiting to resume
+const MAX_PROTOCOL_VIOLATIONS = 10; // refused messages per connection before it is closed
 
 function generateRoomCode(): string {
   let code = '';
@@ -51,51 +146,146 @@ function generateRoomCode(): string {
   return code;
 }
 
+function isValidRoomCode(code: string): boolean {
+  if (code.length !== ROOM_CODE_LENGTH) return false;
+  for (const char of code) {
+    if (!ROOM_CODE_CHARS.includes(char)) return false;
+  }
+  return true;
+}
+
+/** Fall back to a per-session identity for clients that send none (their state won't be restored). */
+function normalizeIdentity(identity: unknown, playerId: string): string {
+  if (typeof identity === 'string' && identity.length > 0 && identity.length <= MAX_IDENTITY_LENGTH) {
+    return identity;
+  }
+  return `session:${playerId}`;
+}
+
 function generatePlayerId(): string {
   return Math.random().toString(36).substring(2, 10);
 }
 
+/** Unguessable, unlike player IDs which everyone in the room sees. */
+function generateSessionToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
 export class NetworkManager {
   private rooms: Map<string, Room> = new Map();
   private wsToPlayer: Map<WebSocket, { roomCode: string; playerId: string }> = new Map();
+  private sessions: Map<string, { roomCode: string; playerId: string }> = new Map(); // by session token
+  private violations: Map<WebSocket, number> = new Map(); // refused messages per connection
+  private addresses: Map<WebSocket, string> = new Map(); // remote address per connection
+  private features: Map<WebSocket, ProtocolFeature[]> = new Map(); // agreed in the handshake; absent until then
+  private passwords = new RoomPasswordGuard();
   private worldsDir: string;
+  private savedMetas: Map<string, RoomMeta>; // every saved room's metadata by code, so listing rooms never reads the disk
+  private commands = createCommandRegistry();
 
   constructor(private wss: WebSocketServer, worldsDir: string) {
     this.worldsDir = worldsDir;
-    this.wss.on('connection', (ws) => {
+    this.savedMetas = new Map(listRoomMetas(worldsDir).map(meta => [meta.code, meta]));
+    this.wss.on('connection', (ws, request) => {
       console.log('Client connected');
+      this.addresses.set(ws, request.socket.remoteAddress ?? 'unknown');
+
+      ws.on('message', (data, isBinary) => {
+        const text = data.toString();
+        if (Buffer.byteLength(text) > MAX_CLIENT_MESSAGE_BYTES) {
+          this.refuseMessage(ws, 'tooLarge', `Messages are limited to ${MAX_CLIENT_MESSAGE_BYTES} bytes`);
+          return;
+        }
+
+        let message: unknown;
+        try {
+          if (isBinary) throw new Error('binary frame');
+          message = JSON.parse(text);
+        } catch {
+          this.refuseMessage(ws, 'malformed', 'Messages must be JSON text');
+          return;
+        }
+
+        // Before the schema: clients loaded before the handshake existed send messages it no longer
+        // accepts, and only understand a RoomError. Not a violation, they can't help it.
+        if (!this.features.has(ws) && !isHello(message)) {
+          const error: RoomErrorMessage = { type: MessageType.RoomError, error: MISSING_HELLO_ERROR, reload: true };
+          this.send(ws, error);
+          return;
+        }
+
+        const problem = checkClientMessage(message);
+        if (problem) {
+          this.refuseMessage(ws, 'invalid', problem);
+          return;
+        }
 
-      ws.on('message', (data) => {
         try {
-          const message = JSON.parse(data.toString()) as ClientMessage;
-          this.handleMessage(ws, message);
+          this.handleMessage(ws, message as ClientMessage);
         } catch (err) {
-          console.error('Invalid message:', err);
+          console.error('Failed to handle message:', err);
         }
       });
 
+      ws.on('pong', (data) => this.handlePong(ws, data));
+
       ws.on('close', () => {
+        this.violations.delete(ws);
+        this.addresses.delete(ws);
+        this.features.delete(ws);
         this.handleDisconnect(ws);
       });
     });
   }
 
+  /** Answer a message that failed validation, and close the connection once it has sent too many. */
+  private refuseMessage(ws: WebSocket, code: ProtocolErrorCode, error: string): void {
+    const violations = (this.violations.get(ws) ?? 0) + 1;
+    this.violations.set(ws, violations);
+
+    const playerInfo = this.wsToPlayer.get(ws);
+    const who = playerInfo ? `${playerInfo.playerId} in room ${playerInfo.roomCode}` : 'a client outside any room';
+    console.warn(`[protocol] Refused a message from ${who}: ${error} (violation #${violations})`);
+
+    const disconnecting = violations >= MAX_PROTOCOL_VIOLATIONS;
+    const reply: ProtocolErrorMessage = { type: MessageType.ProtocolError, code, error, disconnecting };
+    this.send(ws, reply);
+    if (disconnecting) {
+      ws.close(1008, 'Too many invalid messages');
+    }
+  }
+
   private handleMessage(ws: WebSocket, message: ClientMessage): void {
     switch (message.type) {
+      case MessageType.Hello:
+        this.handleHello(ws, message);
+        break;
       case MessageType.CreateRoom:
-        this.handleCreateRoom(ws, message.playerName);
+        this.handleCreateRoom(ws, message.playerName, message.identity, message.roomCode, message.options)
+          .catch(err => console.error('Failed to create room:', err));
         break;
       case MessageType.JoinRoom:
-        this.handleJoinRoom(ws, message.roomCode, message.playerName);
+        this.handleJoinRoom(ws, message.roomCode, message.playerName, message.identity, message.password)
+          .catch(err => console.error('Failed to join room:', err));
+        break;
+      case MessageType.LeaveRoom:
+        this.handleLeaveRoom(ws);
+        break;
+      case MessageType.Resume:
+        this.handleResume(ws, message.sessionToken);
+        break;
+      case MessageType.CompleteCommand:
+        this.handleCompleteCommand(ws, message.text);
+        break;
+      case MessageType.Ping:
+        this.handlePing(ws, message.time);
         break;
       case MessageType.RequestChunk:
         this.handleRequestChunk(ws, message.cx, message.cy, message.cz);
         break;
       case MessageType.BlockUpdate:
-        this.handleBlockUpdate(ws, message.x, message.y, message.z, message.blockType);
-        break;
       case MessageType.PlayerUpdate:
-        this.handlePlayerUpdate(ws, message.x, message.y, message.z, message.rx, message.ry);
+        this.queueInput(ws, message);
         break;
       case MessageType.ChatMessage:
         this.handleChatMessage(ws, message.message);
@@ -103,37 +293,71 @@ export class NetworkManager {
     }
   }
 
-  private handleCreateRoom(ws: WebSocket, playerName: string): void {
-    // Generate unique room code
+  private async handleCreateRoom(
+    ws: WebSocket,
+    rawPlayerName: string,
+    identity: string,
+    requestedCode?: string,
+    requestedOptions?: Partial<RoomOptions>,
+  ): Promise<void> {
+    if (this.refuseIfInRoom(ws)) return;
+    const playerName = this.acceptPlayerName(ws, rawPlayerName);
+    if (!playerName) return;
+
+    // Reopen a saved room by its code; its options were fixed when it was created
+    if (requestedCode) {
+      const code = requestedCode.toUpperCase();
+      const password = requestedOptions?.password;
+      if (this.rooms.has(code)) {
+        await this.handleJoinRoom(ws, code, playerName, identity, password);
+        return;
+      }
+      const room = this.reopenRoom(code);
+      if (!room) {
+        const error: RoomErrorMessage = {
+          type: MessageType.RoomError,
+          error: `No saved world for room "${code}"`,
+        };
+        this.send(ws, error);
+        return;
+      }
+      await this.handleJoinRoom(ws, code, playerName, identity, password);
+      return;
+    }
+
+    const options = normalizeRoomOptions(requestedOptions, `${playerName}'s world`);
+    const password = await hashPassword(options.password);
+    if (ws.readyState !== WebSocket.OPEN) return; // gave up while the password was hashed
+    if (this.refuseIfInRoom(ws)) return; // joined elsewhere meanwhile
+
+    // Generate unique room code (skipping codes that belong to saved worlds)
     let code: string;
     do {
       code = generateRoomCode();
-    } while (this.rooms.has(code));
+    } while (this.rooms.has(code) || worldExists(this.worldsDir, code));
 
-    const seed = Math.floor(Math.random() * 2147483647);
+    const seed = randomSeed();
     const playerId = generatePlayerId();
+    const playerIdentity = normalizeIdentity(identity, playerId);
+    const sessionToken = generateSessionToken();
 
-    const world = new WorldManager(seed);
-
-    const npcManager = new NpcManager(world, seed, (x, y, z, type) => {
-      const notification: BlockChangedMessage = {
-        type: MessageType.BlockChanged,
-        x, y, z,
-        blockType: type,
-        playerId: 'npc',
-      };
-      this.broadcastToRoom(code, notification);
-    });
-
-    const room: Room = {
+    const now = Date.now();
+    const room = this.openRoom(code, new WorldManager(seed), {
       code,
-      players: new Map(),
-      world,
-      seed,
-      npcManager,
-      npcBroadcastTimer: null,
-      autoSaveTimer: null,
-    };
+      createdAt: now,
+      createdBy: playerName,
+      lastSavedAt: now,
+      name: options.name,
+      visibility: options.visibility,
+      maxPlayers: options.maxPlayers,
+      rules: options.rules,
+      password,
+      hostIdentity: playerIdentity,
+      operators: [],
+      banned: [],
+      muted: [],
+      buildDenied: [],
+    });
 
     const spawnX = 0;
     const spawnY = 80;
@@ -141,44 +365,254 @@ export class NetworkManager {
 
     room.players.set(playerId, {
       ws,
+      entityId: room.nextEntityId++,
+      identity: playerIdentity,
       name: playerName,
       x: spawnX,
       y: spawnY,
       z: spawnZ,
       rx: 0,
       ry: 0,
+      slot: 0,
+      editLimiter: new EditRateLimiter(),
+      movement: new MovementValidator(spawnX, spawnY, spawnZ),
+      sessionToken,
+      resumeTimer: null,
+      subscription: subscriptionAt(spawnX, spawnZ),
+      visiblePlayers: new Set(),
+      visibleNpcs: new Set(),
+      snapshots: new SnapshotHistory(),
+      rtt: 0,
+      pingSent: null,
+      queuedUpdate: null,
+      queuedEdits: 0,
     });
 
-    this.rooms.set(code, room);
     this.wsToPlayer.set(ws, { roomCode: code, playerId });
-
-    // Start NPC AI and broadcast loop
-    npcManager.start();
-    room.npcBroadcastTimer = setInterval(() => {
-      if (room.players.size > 0) {
-        this.broadcastToRoom(code, npcManager.getNpcUpdateMessage());
-      }
-    }, 500);
-
-    // Auto-save every 5 minutes
-    room.autoSaveTimer = setInterval(() => {
-      room.world.save(this.worldsDir, code);
-    }, AUTO_SAVE_INTERVAL);
+    this.sessions.set(sessionToken, { roomCode: code, playerId });
 
     const response: RoomCreatedMessage = {
       type: MessageType.RoomCreated,
       roomCode: code,
       playerId,
       seed,
+      sessionToken,
+      roomName: room.meta.name,
+      permissions: getPermissions(room.meta, playerIdentity),
     };
     this.send(ws, response);
+    this.send(ws, this.getWorldInfoMessage(room));
+
+    console.log(`Room ${code} "${options.name}" created by ${playerName} (seed: ${seed}, ${options.visibility})`);
+  }
+
+  /** Register a room around a world and start its tick loop. */
+  private openRoom(code: string, world: WorldManager, meta: RoomMeta, levelMeta?: LevelMeta): Room {
+    const seed = world.seed;
+    const { rules } = meta;
+
+    const journal = EditJournal.load(this.worldsDir, code);
+    const npcManager = new NpcManager(world, seed, (x, y, z, type, previous, npcName) => {
+      journal.record({ time: Date.now(), actor: npcActor(npcName), actorName: npcName, x, y, z, from: previous, to: type });
+      this.queueBlockChange(code, x, y, z, type);
+    }, rules.npcs ? levelMeta?.npcs : []);
+
+    const room: Room = {
+      code,
+      players: new Map(),
+      world,
+      seed,
+      meta,
+      playerRecords: new Map(Object.entries(levelMeta?.players ?? {})),
+      npcManager,
+      journal,
+      blockChanges: new BlockChangeBuffer(),
+      clock: new WorldClock(levelMeta?.dayTime, rules.daylightCycle),
+      nextEntityId: 1,
+      inputs: [],
+      loop: new TickLoop(`room ${code}`, (tick) => this.tickRoom(room, tick)),
+    };
+
+    this.rooms.set(code, room);
+    room.loop.start();
+    return room;
+  }
+
+  /**
+   * One fixed step of a room: apply the inputs that arrived since the last tick, advance the
+   * clock and NPCs, then send out the block changes and movement snapshots it produced.
+   */
+  private tickRoom(room: Room, tick: number): void {
+    for (const player of room.players.values()) {
+      player.queuedUpdate = null;
+      player.queuedEdits = 0;
+    }
+    for (const { ws, roomCode, playerId, message } of room.inputs.splice(0)) {
+      // The connection may have left (or left and joined another room) since this was queued
+      const current = this.wsToPlayer.get(ws);
+      if (current?.roomCode !== roomCode || current.playerId !== playerId) continue;
+      if (message.type === MessageType.BlockUpdate) {
+        this.handleBlockUpdate(ws, message.seq, message.x, message.y, message.z, message.blockType);
+      } else {
+        this.handlePlayerUpdate(ws, message.x, message.y, message.z, message.rx, message.ry, message.slot, message.snapshotAck);
+      }
+    }
+
+    room.clock.advance(TICK_INTERVAL / 1000);
+    if (room.meta.rules.npcs && tick % NPC_TICKS === 0) {
+      room.npcManager.tick(NPC_TICK_INTERVAL / 1000);
+    }
+
+    this.flushBlockChanges(room);
+    this.sendSnapshots(room);
+
+    if (tick % PING_TICKS === 0) {
+      this.pingPlayers(room);
+    }
+    // Keep every client's sky on the room's time
+    if (tick % WORLD_INFO_TICKS === 0) {
+      this.broadcastToRoom(room.code, this.getWorldInfoMessage(room));
+    }
+    if (tick > 0 && tick % AUTO_SAVE_TICKS === 0) {
+      this.saveRoom(room);
+    }
+  }
+
+  /** Bring a dormant room back from its save, or return null if it was never saved. */
+  private reopenRoom(code: string): Room | null {
+    // The code becomes a directory name: never touch disk for anything but a well-formed code
+    if (!isValidRoomCode(code)) return null;
+
+    const saved = WorldManager.fromSave(this.worldsDir, code);
+    if (!saved) return null;
+    const { world, meta: levelMeta } = saved;
+
+    const meta = this.savedMetas.get(code) ?? defaultRoomMeta(code);
+
+    console.log(`Room ${code} reopened from save (seed: ${world.seed}, ${world.getModifiedChunkCount()} modified chunks)`);
+    return this.openRoom(code, world, meta, levelMeta);
+  }
+
+  private saveRoom(room: Room): void {
+    for (const player of room.players.values()) {
+      this.recordPlayer(room, player);
+    }
+
+    const now = Date.now();
+    room.world.save(this.worldsDir, room.code, {
+      savedAt: now,
+      dayTime: room.clock.getDayTime(),
+      players: Object.fromEntries(room.playerRecords),
+      npcs: room.npcManager.serialize(),
+      claims: room.world.claims.serialize(),
+    });
+    room.journal.flush();
+    room.meta.lastSavedAt = now;
+    this.saveMeta(room.meta);
+  }
+
+  private saveMeta(meta: RoomMeta): void {
+    saveRoomMeta(this.worldsDir, meta);
+    this.savedMetas.set(meta.code, meta);
+  }
+
+  private getWorldInfoMessage(room: Room): WorldInfoMessage {
+    return {
+      type: MessageType.WorldInfo,
+      seed: room.seed,
+      dayTime: room.clock.getDayTime(),
+      timeRunning: room.clock.running,
+    };
+  }
+
+  private recordPlayer(room: Room, player: PlayerInfo): void {
+    room.playerRecords.set(player.identity, {
+      name: player.name,
+      x: player.x,
+      y: player.y,
+      z: player.z,
+      rx: player.rx,
+      ry: player.ry,
+      slot: player.slot,
+      lastSeen: Date.now(),
+    });
+  }
 
-    console.log(`Room ${code} created by ${playerName} (seed: ${seed})`);
+  private handleHello(ws: WebSocket, hello: HelloMessage): void {
+    const problem = checkHello(hello);
+    if (problem) {
+      console.warn(`[protocol] Refused client build ${hello.buildId} (protocol ${hello.protocolVersion}): ${problem}`);
+      this.features.delete(ws);
+      const error: RoomErrorMessage = { type: MessageType.RoomError, error: problem, reload: true };
+      this.send(ws, error);
+      return;
+    }
+
+    const features = agreedFeatures(hello);
+    this.features.set(ws, features);
+    const welcome: WelcomeMessage = {
+      type: MessageType.Welcome,
+      protocolVersion: PROTOCOL_VERSION,
+      buildId: SERVER_BUILD_ID,
+      features,
+    };
+    this.send(ws, welcome);
+  }
+
+  /**
+   * A connection plays one player: refuse to bind a second one, which would orphan the first
+   * in its room. Returns whether the request was refused.
+   */
+  private refuseIfInRoom(ws: WebSocket): boolean {
+    if (!this.wsToPlayer.has(ws)) return false;
+    const error: RoomErrorMessage = { type: MessageType.RoomError, error: 'You are already in a room' };
+    this.send(ws, error);
+    return true;
+  }
+
+  /** Trimmed player name, or null after telling the client why it can't be used. */
+  private acceptPlayerName(ws: WebSocket, rawName: string): string | null {
+    const name = rawName.trim();
+    const problem = checkPlayerName(name);
+    if (problem) {
+      const error: RoomErrorMessage = { type: MessageType.RoomError, error: problem };
+      this.send(ws, error);
+      return null;
+    }
+    return name;
   }
 
-  private handleJoinRoom(ws: WebSocket, roomCode: string, playerName: string): void {
+  private async handleJoinRoom(
+    ws: WebSocket,
+    roomCode: string,
+    rawPlayerName: string,
+    identity: string,
+    password?: string,
+  ): Promise<void> {
+    if (this.refuseIfInRoom(ws)) return;
+    const playerName = this.acceptPlayerName(ws, rawPlayerName);
+    if (!playerName) return;
+
     const code = roomCode.toUpperCase();
-    const room = this.rooms.get(code);
+    const opened = this.rooms.get(code) ?? this.reopenRoom(code);
+    if (opened?.meta.password) {
+      const problem = await this.passwords.check(ws, this.addresses.get(ws) ?? 'unknown', code, opened.meta.password, password);
+      if (problem) {
+        const error: RoomErrorMessage = { type: MessageType.RoomError, error: problem };
+        this.send(ws, error);
+        // It may have been reopened just for this attempt
+        if (this.rooms.get(code) === opened) this.closeIfEmpty(opened);
+        return;
+      }
+      // Gave up, or joined elsewhere, while the password was checked
+      if (ws.readyState !== WebSocket.OPEN || this.refuseIfInRoom(ws)) {
+        if (this.rooms.get(code) === opened) this.closeIfEmpty(opened);
+        return;
+      }
+    }
+
+    // Look again: an empty room can be closed by someone else's failed attempt while the password is checked
+    const room = this.rooms.get(code) ?? (opened ? this.reopenRoom(code) : null);
 
     if (!room) {
       const error: RoomErrorMessage = {
@@ -189,25 +623,53 @@ export class NetworkManager {
       return;
     }
 
-    if (room.players.size >= MAX_PLAYERS_PER_ROOM) {
+    if (room.players.size >= room.meta.maxPlayers) {
       const error: RoomErrorMessage = {
         type: MessageType.RoomError,
-        error: `Room "${code}" is full (max ${MAX_PLAYERS_PER_ROOM} players)`,
+        error: `Room "${code}" is full (max ${room.meta.maxPlayers} players)`,
       };
       this.send(ws, error);
       return;
     }
 
     const playerId = generatePlayerId();
-    const spawnX = 0;
-    const spawnY = 80;
-    const spawnZ = 0;
+    const playerIdentity = normalizeIdentity(identity, playerId);
+    const sessionToken = generateSessionToken();
+
+    if (isBanned(room.meta, playerIdentity)) {
+      const error: RoomErrorMessage = {
+        type: MessageType.RoomError,
+        error: `You are banned from room "${code}"`,
+      };
+      this.send(ws, error);
+      this.closeIfEmpty(room);
+      return;
+    }
+
+    // Rooms saved before roles existed have no host: the first player in becomes it
+    if (room.meta.hostIdentity === null) {
+      room.meta.hostIdentity = playerIdentity;
+      this.saveMeta(room.meta);
+      console.log(`[moderation] ${playerName} is now the host of room ${code}`);
+    }
+
+    // Returning players resume where they logged off
+    const record = room.playerRecords.get(playerIdentity);
+    const spawn = record
+      ? { x: record.x, y: record.y, z: record.z, rx: record.rx, ry: record.ry, slot: record.slot }
+      : undefined;
+    const spawnX = spawn?.x ?? 0;
+    const spawnY = spawn?.y ?? 80;
+    const spawnZ = spawn?.z ?? 0;
 
     // Notify existing players about the new player
+    const entityId = room.nextEntityId++;
     const joinNotification: PlayerJoinedMessage = {
       type: MessageType.PlayerJoined,
       playerId,
+      entityId,
       playerName,
+      role: getRole(room.meta, playerIdentity),
       x: spawnX,
       y: spawnY,
       z: spawnZ,
@@ -217,20 +679,34 @@ export class NetworkManager {
     // Add the new player
     room.players.set(playerId, {
       ws,
+      entityId,
+      identity: playerIdentity,
       name: playerName,
       x: spawnX,
       y: spawnY,
       z: spawnZ,
-      rx: 0,
-      ry: 0,
+      rx: spawn?.rx ?? 0,
+      ry: spawn?.ry ?? 0,
+      slot: spawn?.slot ?? 0,
+      editLimiter: new EditRateLimiter(),
+      movement: new MovementValidator(spawnX, spawnY, spawnZ),
+      sessionToken,
+      resumeTimer: null,
+      subscription: subscriptionAt(spawnX, spawnZ),
+      visiblePlayers: new Set(),
+      visibleNpcs: new Set(),
+      snapshots: new SnapshotHistory(),
+      rtt: 0,
+      pingSent: null,
+      queuedUpdate: null,
+      queuedEdits: 0,
     });
 
     this.wsToPlayer.set(ws, { roomCode: code, playerId });
+    this.sessions.set(sessionToken, { roomCode: code, playerId });
 
     // Send room state to the joining player
-    const existingPlayers = Array.from(room.players.entries())
-      .filter(([id]) => id !== playerId)
-      .map(([id, p]) => ({ id, name: p.name, x: p.x, y: p.y, z: p.z }));
+    const existingPlayers = this.getPlayerSummaries(room, playerId);
 
     const response: RoomJoinedMessage = {
       type: MessageType.RoomJoined,
@@ -238,53 +714,238 @@ export class NetworkManager {
       playerId,
       seed: room.seed,
       players: existingPlayers,
+      spawn,
+      sessionToken,
+      roomName: room.meta.name,
+      permissions: getPermissions(room.meta, playerIdentity),
     };
     this.send(ws, response);
+    this.send(ws, this.getWorldInfoMessage(room));
+    this.sendClaims(ws, room, playerIdentity);
+    this.updateInterest(room, playerId, room.players.get(playerId)!);
 
-    console.log(`${playerName} joined room ${code} (${room.players.size}/${MAX_PLAYERS_PER_ROOM})`);
+    console.log(`${playerName} joined room ${code} (${room.players.size}/${room.meta.maxPlayers})`);
   }
 
+  /** Keep a dropped player in the room for a grace period so the client can resume its session. */
   handleDisconnect(ws: WebSocket): void {
     const playerInfo = this.wsToPlayer.get(ws);
     if (!playerInfo) {
       console.log('Unknown client disconnected');
       return;
     }
+    this.wsToPlayer.delete(ws);
 
     const { roomCode, playerId } = playerInfo;
+    const player = this.rooms.get(roomCode)?.players.get(playerId);
+    if (!player || player.ws !== ws) return;
+
+    console.log(`${player.name} disconnected from room ${roomCode}, waiting ${RESUME_GRACE / 1000}s for a resume`);
+    player.resumeTimer = setTimeout(() => this.removePlayer(roomCode, playerId), RESUME_GRACE);
+  }
+
+  private handleLeaveRoom(ws: WebSocket): void {
+    const playerInfo = this.wsToPlayer.get(ws);
+    if (!playerInfo) return;
+    this.wsToPlayer.delete(ws);
+    this.removePlayer(playerInfo.roomCode, playerInfo.playerId);
+  }
+
+  /** Take a player out of their room for good, closing the room when it empties. */
+  private removePlayer(roomCode: string, playerId: string): void {
     const room = this.rooms.get(roomCode);
+    const player = room?.players.get(playerId);
+    if (!room || !player) return;
 
-    if (room) {
-      const player = room.players.get(playerId);
-      const playerName = player?.name ?? 'Unknown';
+    if (player.resumeTimer) {
+      clearTimeout(player.resumeTimer);
+      player.resumeTimer = null;
+    }
+    this.sessions.delete(player.sessionToken);
+    this.recordPlayer(room, player);
 
-      room.players.delete(playerId);
-      console.log(`${playerName} left room ${roomCode} (${room.players.size}/${MAX_PLAYERS_PER_ROOM})`);
+    room.players.delete(playerId);
+    for (const other of room.players.values()) {
+      other.visiblePlayers.delete(playerId);
+    }
+    console.log(`${player.name} left room ${roomCode} (${room.players.size}/${room.meta.maxPlayers})`);
 
-      if (room.players.size === 0) {
-        room.npcManager.stop();
-        if (room.npcBroadcastTimer) {
-          clearInterval(room.npcBroadcastTimer);
-          room.npcBroadcastTimer = null;
-        }
-        if (room.autoSaveTimer) {
-          clearInterval(room.autoSaveTimer);
-          room.autoSaveTimer = null;
-        }
-        // Save world before deleting room
-        room.world.save(this.worldsDir, roomCode);
-        this.rooms.delete(roomCode);
-        console.log(`Room ${roomCode} deleted (empty)`);
-      } else {
-        const leaveNotification: PlayerLeftMessage = {
-          type: MessageType.PlayerLeft,
-          playerId,
-        };
-        this.broadcastToRoom(roomCode, leaveNotification);
-      }
+    if (!this.closeIfEmpty(room)) {
+      const leaveNotification: PlayerLeftMessage = {
+        type: MessageType.PlayerLeft,
+        playerId,
+      };
+      this.broadcastToRoom(roomCode, leaveNotification);
     }
+  }
 
-    this.wsToPlayer.delete(ws);
+  /** Stop an empty room's loops, save it and forget it until someone joins again. */
+  private closeIfEmpty(room: Room): boolean {
+    if (room.players.size > 0) return false;
+
+    room.loop.stop();
+    // Save world before deleting room
+    this.saveRoom(room);
+    this.rooms.delete(room.code);
+    console.log(`Room ${room.code} deleted (empty)`);
+    return true;
+  }
+
+  /** Reattach a reconnected client to its player, as if it had never left. */
+  private handleResume(ws: WebSocket, sessionToken: string): void {
+    if (this.wsToPlayer.has(ws)) {
+      const failed: ResumeFailedMessage = { type: MessageType.ResumeFailed, reason: 'This connection is already in a room' };
+      this.send(ws, failed);
+      return;
+    }
+    const session = typeof sessionToken === 'string' ? this.sessions.get(sessionToken) : undefined;
+    const room = session ? this.rooms.get(session.roomCode) : undefined;
+    const player = session ? room?.players.get(session.playerId) : undefined;
+    if (!session || !room || !player) {
+      const failed: ResumeFailedMessage = {
+        type: MessageType.ResumeFailed,
+        reason: 'Session expired',
+      };
+      this.send(ws, failed);
+      return;
+    }
+
+    if (player.resumeTimer) {
+      clearTimeout(player.resumeTimer);
+      player.resumeTimer = null;
+    }
+
+    // The old socket may not have noticed it is dead yet
+    if (player.ws !== ws) {
+      this.wsToPlayer.delete(player.ws);
+      player.ws.close();
+    }
+    player.ws = ws;
+    player.pingSent = null;
+    this.wsToPlayer.set(ws, { roomCode: room.code, playerId: session.playerId });
+
+    // The client kept simulating while offline: bring it back to where the server last saw it
+    player.movement.reset(player.x, player.y, player.z);
+    // The client rebuilds its players and snapshots from scratch
+    player.visiblePlayers.clear();
+    player.visibleNpcs.clear();
+    player.snapshots = new SnapshotHistory();
+
+    const response: ResumedMessage = {
+      type: MessageType.Resumed,
+      roomCode: room.code,
+      playerId: session.playerId,
+      players: this.getPlayerSummaries(room, session.playerId),
+      x: player.x,
+      y: player.y,
+      z: player.z,
+    };
+    this.send(ws, response);
+    this.send(ws, this.getWorldInfoMessage(room));
+    this.sendClaims(ws, room, player.identity);
+    this.updateInterest(room, session.playerId, player);
+
+    console.log(`${player.name} resumed their session in room ${room.code}`);
+  }
+
+  /** Everyone in the room except `excludeId`, as sent to a (re)joining client. */
+  private getPlayerSummaries(room: Room, excludeId: string): PlayerSummary[] {
+    return Array.from(room.players.entries())
+      .filter(([id]) => id !== excludeId)
+      .map(([id, p]) => ({
+        id,
+        entityId: p.entityId,
+        name: p.name,
+        role: getRole(room.meta, p.identity),
+        x: p.x,
+        y: p.y,
+        z: p.z,
+      }));
+  }
+
+  /** Apply a moderation command; refusals are thrown as CommandErrors for the actor. */
+  private moderate(room: Room, actor: PlayerInfo, action: ModerationAction, targetName: string): void {
+    const target = this.findModerationTarget(room, targetName, action);
+    if (typeof target === 'string') throw new CommandError(target);
+
+    const refusal = checkModeration(room.meta, actor.identity, target.identity, action);
+    if (refusal) throw new CommandError(refusal);
+
+    applyModeration(room.meta, target.identity, target.name, action);
+    this.saveMeta(room.meta);
+    console.log(`[moderation] ${actor.name} in room ${room.code}: ${action} ${target.name}`);
+
+    const notice: SystemNoticeMessage = {
+      type: MessageType.SystemNotice,
+      message: describeModeration(actor.name, target.name, action),
+    };
+    this.broadcastToRoom(room.code, notice);
+
+    if (!target.playerId) return;
+    const targetPlayer = room.players.get(target.playerId)!;
+
+    if (action === 'kick' || action === 'ban') {
+      const kicked: KickedMessage = {
+        type: MessageType.Kicked,
+        reason: action === 'ban' ? `Banned from room ${room.code} by ${actor.name}` : `Kicked from room ${room.code} by ${actor.name}`,
+      };
+      this.send(targetPlayer.ws, kicked);
+      this.wsToPlayer.delete(targetPlayer.ws);
+      targetPlayer.ws.close();
+      this.removePlayer(room.code, target.playerId);
+      return;
+    }
+
+    const status: PlayerStatusMessage = {
+      type: MessageType.PlayerStatus,
+      playerId: target.playerId,
+      ...getPermissions(room.meta, target.identity),
+    };
+    this.broadcastToRoom(room.code, status);
+  }
+
+  /** Resolve a player name for a moderation action: the banned list for unban, online players for kick. */
+  private findModerationTarget(
+    room: Room,
+    name: string,
+    action: ModerationAction,
+  ): { identity: string; name: string; playerId?: string } | string {
+    if (action === 'unban') {
+      const wanted = name.trim().toLowerCase();
+      const entry = room.meta.banned.find(e => e.name.toLowerCase() === wanted);
+      return entry ? { identity: entry.identity, name: entry.name } : `No banned player named "${name}"`;
+    }
+    return this.findKnownPlayer(room, name, action === 'kick');
+  }
+
+  /**
+   * Resolve a player name to an identity: players in the room first, then (unless `onlineOnly`)
+   * players who left. Returns an error message when there is no single match.
+   */
+  private findKnownPlayer(
+    room: Room,
+    name: string,
+    onlineOnly: boolean,
+  ): { identity: string; name: string; playerId?: string } | string {
+    const wanted = name.trim().toLowerCase();
+
+    const online = Array.from(room.players.entries()).filter(([, p]) => p.name.toLowerCase() === wanted);
+    if (online.length > 1) return `Several players are named "${name}"`;
+    if (online.length === 1) {
+      const [playerId, player] = online[0];
+      return { identity: player.identity, name: player.name, playerId };
+    }
+
+    if (onlineOnly) return `${name} is not in the room`;
+
+    // Latest visit wins when several identities used the name
+    let latest: { identity: string; name: string; lastSeen: number } | null = null;
+    for (const [identity, record] of room.playerRecords) {
+      if (record.name.toLowerCase() === wanted && (!latest || record.lastSeen > latest.lastSeen)) {
+        latest = { identity, name: record.name, lastSeen: record.lastSeen };
+      }
+    }
+    return latest ? { identity: latest.identity, name: latest.name } : `No player named "${name}" has been in this room`;
   }
 
   private handleRequestChunk(ws: WebSocket, cx: number, cy: number, cz: number): void {
@@ -294,48 +955,94 @@ export class NetworkManager {
     const room = this.rooms.get(playerInfo.roomCode);
     if (!room) return;
 
-    const chunkData = room.world.getChunk(cx, cy, cz);
+    // Validate vertical chunk range
+    if (cy < 0 || cy >= VERTICAL_CHUNKS) return;
 
-    const response: ChunkDataMessage = {
-      type: MessageType.ChunkData,
-      cx,
-      cy,
-      cz,
-      data: Array.from(chunkData),
-    };
-    this.send(ws, response);
+    const chunkData = room.world.getChunk(cx, cy, cz);
+    const compressed = this.features.get(ws)?.includes('chunkCompression') ?? false;
+    this.sendBinary(ws, encodeChunkFrame(cx, cy, cz, chunkData, compressed));
   }
 
-  private handleBlockUpdate(ws: WebSocket, x: number, y: number, z: number, blockType: number): void {
+  private handleBlockUpdate(ws: WebSocket, seq: number, x: number, y: number, z: number, blockType: number): void {
     const playerInfo = this.wsToPlayer.get(ws);
     if (!playerInfo) return;
 
     const room = this.rooms.get(playerInfo.roomCode);
     if (!room) return;
 
-    // Validate block type
-    if (blockType < 0 || blockType > BlockType.Flower) return;
+    const player = room.players.get(playerInfo.playerId);
+    if (!player || !Number.isInteger(seq)) return;
+
+    if (room.meta.buildDenied.includes(player.identity)) {
+      this.sendBlockAck(ws, room, seq, false, x, y, z);
+      return;
+    }
+
+    if (!player.editLimiter.tryTake()) {
+      this.sendBlockAck(ws, room, seq, false, x, y, z);
+      return;
+    }
+
+    const bodies = [...room.players.values(), ...room.npcManager.getNpcPositions()];
+    const rejection = validateBlockEdit(player, x, y, z, blockType, bodies);
+    if (rejection) {
+      console.warn(`Rejected block edit from ${player.name} in room ${room.code} at ${x},${y},${z}: ${rejection}`);
+      this.sendBlockAck(ws, room, seq, false, x, y, z);
+      return;
+    }
 
-    // Validate Y bounds
-    if (y < 0 || y >= WORLD_HEIGHT) return;
+    const claim = room.world.claims.blockingPlayer(player.identity, x, y, z, blockType === BlockType.Air);
+    if (claim) {
+      this.sendNotice(ws, `This area is protected by ${claim.ownerName}'s claim "${claim.name}"`);
+      this.sendBlockAck(ws, room, seq, false, x, y, z);
+      return;
+    }
 
-    // Apply to world
-    const success = room.world.setBlock(x, y, z, blockType as BlockType);
-    if (!success) return;
+    // Edits are applied in arrival order: when two players race for the same block,
+    // the first one wins and the second finds it already broken or filled
+    const current = room.world.getBlock(x, y, z);
+    const conflict = blockType === BlockType.Air ? current === BlockType.Air : !isReplaceable(current);
+    if (conflict || !room.world.setBlock(x, y, z, blockType as BlockType)) {
+      this.sendBlockAck(ws, room, seq, false, x, y, z);
+      return;
+    }
+
+    room.journal.record({
+      time: Date.now(),
+      actor: player.identity,
+      actorName: player.name,
+      x, y, z,
+      from: current,
+      to: blockType as BlockType,
+    });
+    this.sendBlockAck(ws, room, seq, true, x, y, z);
+    this.queueBlockChange(room.code, x, y, z, blockType);
+  }
 
-    // Broadcast to all players in room (including sender for confirmation)
-    const notification: BlockChangedMessage = {
-      type: MessageType.BlockChanged,
+  /** Tell the editor the block the server now has, so a rejected prediction rolls back. */
+  private sendBlockAck(ws: WebSocket, room: Room, seq: number, accepted: boolean, x: number, y: number, z: number): void {
+    const ack: BlockAckMessage = {
+      type: MessageType.BlockAck,
+      seq,
+      accepted,
       x,
       y,
       z,
-      blockType,
-      playerId: playerInfo.playerId,
+      blockType: isValidBlockPosition(x, y, z) ? room.world.getBlock(x, y, z) : BlockType.Air,
     };
-    this.broadcastToRoom(playerInfo.roomCode, notification);
+    this.send(ws, ack);
   }
 
-  private handlePlayerUpdate(ws: WebSocket, x: number, y: number, z: number, rx: number, ry: number): void {
+  private handlePlayerUpdate(
+    ws: WebSocket,
+    x: number,
+    y: number,
+    z: number,
+    rx: number,
+    ry: number,
+    slot: number,
+    snapshotAck: number,
+  ): void {
     const playerInfo = this.wsToPlayer.get(ws);
     if (!playerInfo) return;
 
@@ -345,24 +1052,90 @@ export class NetworkManager {
     const player = room.players.get(playerInfo.playerId);
     if (!player) return;
 
-    // Update stored position
+    player.snapshots.ack(snapshotAck);
+    player.rx = rx;
+    player.ry = ry;
+    if (Number.isInteger(slot) && slot >= 0 && slot < HOTBAR_BLOCKS.length) {
+      player.slot = slot;
+    }
+
+    if (![x, y, z].every(Number.isFinite)) return;
+
+    const verdict = player.movement.check(room.world, x, y, z);
+    if (verdict.kind === 'pending') return;
+    if (verdict.kind === 'rejected') {
+      console.warn(`[anticheat] ${player.name} in room ${room.code}: ${verdict.reason} (violation #${player.movement.violations})`);
+      const correction: PositionCorrectionMessage = {
+        type: MessageType.PositionCorrection,
+        ...player.movement.position,
+      };
+      this.send(ws, correction);
+      return;
+    }
+
+    // Update stored position; the next snapshots carry it to the players who have it in view
     player.x = x;
     player.y = y;
     player.z = z;
-    player.rx = rx;
-    player.ry = ry;
+    this.updateInterest(room, playerInfo.playerId, player);
+  }
 
-    // Relay to other players
-    const notification: PlayerMovedMessage = {
-      type: MessageType.PlayerMoved,
-      playerId: playerInfo.playerId,
-      x,
-      y,
-      z,
-      rx,
-      ry,
-    };
-    this.broadcastToRoom(playerInfo.roomCode, notification, ws);
+  /** Re-evaluate who has a player in view and whom it has in view, after it joined or moved. */
+  private updateInterest(room: Room, playerId: string, player: PlayerInfo): void {
+    player.subscription = subscriptionAt(player.x, player.z);
+    for (const [otherId, other] of room.players) {
+      if (otherId === playerId) continue;
+      this.setInView(other, playerId, player, isInView(other.subscription, player.x, player.z));
+      this.setInView(player, otherId, other, isInView(player.subscription, other.x, other.z));
+    }
+  }
+
+  /** Tell `viewer` when `target` enters or leaves its view. */
+  private setInView(viewer: PlayerInfo, targetId: string, target: PlayerInfo, inView: boolean): void {
+    if (inView && !viewer.visiblePlayers.has(targetId)) {
+      viewer.visiblePlayers.add(targetId);
+      const { x, y, z, rx, ry } = target;
+      const entered: PlayerEnteredViewMessage = { type: MessageType.PlayerEnteredView, playerId: targetId, x, y, z, rx, ry };
+      this.send(viewer.ws, entered);
+    } else if (!inView && viewer.visiblePlayers.has(targetId)) {
+      viewer.visiblePlayers.delete(targetId);
+      const left: PlayerLeftViewMessage = { type: MessageType.PlayerLeftView, playerId: targetId };
+      this.send(viewer.ws, left);
+    }
+  }
+
+  /**
+   * Send each connected player a snapshot of the players and NPCs in its view, delta-encoded
+   * against the last one it acknowledged. NPCs coming into view are introduced first with NpcInfo.
+   */
+  private sendSnapshots(room: Room): void {
+    const npcs = room.npcManager.getNpcViews();
+    for (const player of room.players.values()) {
+      if (player.resumeTimer) continue;
+
+      const snapshot = emptySnapshot();
+      for (const otherId of player.visiblePlayers) {
+        const other = room.players.get(otherId);
+        if (other) snapshot.players.set(other.entityId, toEntityState(other.x, other.y, other.z, other.rx, other.ry));
+      }
+
+      const entered: NpcProfile[] = [];
+      for (const npc of npcs) {
+        if (!isInView(player.subscription, npc.x, npc.z)) continue;
+        if (!player.visibleNpcs.has(npc.entityId)) {
+          entered.push({ entityId: npc.entityId, name: npc.name, color: npc.color });
+        }
+        snapshot.npcs.set(npc.entityId, toEntityState(npc.x, npc.y, npc.z, npc.rx, npc.ry, npc.action));
+      }
+      player.visibleNpcs = new Set(snapshot.npcs.keys());
+      if (entered.length > 0) {
+        const info: NpcInfoMessage = { type: MessageType.NpcInfo, npcs: entered };
+        this.send(player.ws, info);
+      }
+
+      const frame = player.snapshots.next(snapshot);
+      if (frame) this.sendBinary(player.ws, frame);
+    }
   }
 
   private handleChatMessage(ws: WebSocket, message: string): void {
@@ -378,6 +1151,16 @@ export class NetworkManager {
     // Sanitize message length
     const sanitized = message.substring(0, 200);
 
+    if (sanitized.startsWith('/')) {
+      this.commands.execute(this.createCommandContext(room, playerInfo.playerId, player), sanitized);
+      return;
+    }
+
+    if (room.meta.muted.includes(player.identity)) {
+      this.sendNotice(ws, 'You are muted in this room');
+      return;
+    }
+
     const broadcast: ChatBroadcastMessage = {
       type: MessageType.ChatBroadcast,
       playerId: playerInfo.playerId,
@@ -387,6 +1170,276 @@ export class NetworkManager {
     this.broadcastToRoom(playerInfo.roomCode, broadcast);
   }
 
+  /** Answered outside the tick, so the round trip measures the network rather than tick timing. */
+  private handlePing(ws: WebSocket, time: number): void {
+    const latencies: Record<string, number> = {};
+    const playerInfo = this.wsToPlayer.get(ws);
+    const room = playerInfo ? this.rooms.get(playerInfo.roomCode) : undefined;
+    if (room) {
+      for (const [id, other] of room.players) {
+        latencies[id] = other.rtt;
+      }
+    }
+
+    const pong: PongMessage = { type: MessageType.Pong, time, latencies };
+    this.send(ws, pong);
+  }
+
+  /**
+   * Measure round trips with WebSocket pings, which browsers answer on their own, so the
+   * player list shows what the server sees rather than what clients say. A random payload
+   * keeps a client from answering before the ping arrives.
+   */
+  private pingPlayers(room: Room): void {
+    for (const player of room.players.values()) {
+      if (player.pingSent || player.ws.readyState !== WebSocket.OPEN) continue;
+      player.pingSent = { payload: randomBytes(8), at: Date.now() };
+      player.ws.ping(player.pingSent.payload);
+    }
+  }
+
+  private handlePong(ws: WebSocket, data: Buffer): void {
+    const playerInfo = this.wsToPlayer.get(ws);
+    const player = playerInfo ? this.rooms.get(playerInfo.roomCode)?.players.get(playerInfo.playerId) : undefined;
+    if (!player || player.ws !== ws || !player.pingSent?.payload.equals(data)) return;
+    player.rtt = Math.max(1, Date.now() - player.pingSent.at); // 0 stands for not measured yet
+    player.pingSent = null;
+  }
+
+  private handleCompleteCommand(ws: WebSocket, text: string): void {
+    const playerInfo = this.wsToPlayer.get(ws);
+    if (!playerInfo || typeof text !== 'string') return;
+
+    const room = this.rooms.get(playerInfo.roomCode);
+    const player = room?.players.get(playerInfo.playerId);
+    if (!room || !player) return;
+
+    const { hints, usage } = this.commands.complete(this.createCommandContext(room, playerInfo.playerId, player), text.substring(0, 200));
+    const response: CommandHintsMessage = {
+      type: MessageType.CommandHints,
+      text,
+      hints,
+      usage,
+    };
+    this.send(ws, response);
+  }
+
+  /** What chat commands run by `player` can see and do in their room. */
+  private createCommandContext(room: Room, playerId: string, player: PlayerInfo): CommandContext {
+    const toCommandPlayer = (id: string, p: PlayerInfo): CommandPlayer => ({
+      id,
+      name: p.name,
+      role: getRole(room.meta, p.identity),
+      x: p.x,
+      y: p.y,
+      z: p.z,
+    });
+    const playerById = (id: string): PlayerInfo => {
+      const target = room.players.get(id);
+      if (!target) throw new CommandError('That player has left');
+      return target;
+    };
+
+    return {
+      sender: toCommandPlayer(playerId, player),
+      reply: (message) => this.sendNotice(player.ws, message),
+      getPlayers: () => Array.from(room.players.entries()).map(([id, p]) => toCommandPlayer(id, p)),
+      getSeed: () => room.seed,
+      getDayTime: () => room.clock.getDayTime(),
+      setDayTime: (dayTime) => {
+        room.clock.setDayTime(dayTime);
+        this.broadcastToRoom(room.code, this.getWorldInfoMessage(room));
+      },
+      teleport: (target, x, y, z) => {
+        const teleported = playerById(target.id);
+        teleported.x = x;
+        teleported.y = y;
+        teleported.z = z;
+        teleported.movement.reset(x, y, z);
+        const correction: PositionCorrectionMessage = { type: MessageType.PositionCorrection, x, y, z };
+        this.send(teleported.ws, correction);
+        this.updateInterest(room, target.id, teleported);
+      },
+      give: (target, block) => {
+        const receiver = playerById(target.id);
+        receiver.slot = HOTBAR_BLOCKS.indexOf(block);
+        const select: SelectSlotMessage = { type: MessageType.SelectSlot, slot: receiver.slot };
+        this.send(receiver.ws, select);
+      },
+      whisper: (target, message) => {
+        if (room.meta.muted.includes(player.identity)) throw new CommandError('You are muted in this room');
+        const whisper: ChatBroadcastMessage = {
+          type: MessageType.ChatBroadcast,
+          playerId,
+          playerName: player.name,
+          message,
+          whisper: true,
+        };
+        this.send(playerById(target.id).ws, whisper);
+      },
+      spawnNpc: (x, y, z, name) => {
+        if (!room.meta.rules.npcs) throw new CommandError('NPCs are turned off in this room');
+        return room.npcManager.spawnNpc(x, y, z, name);
+      },
+      save: () => this.saveRoom(room),
+      getTickStats: () => room.loop.stats,
+      moderate: (action, targetName) => this.moderate(room, player, action, targetName),
+      getClaims: () => room.world.claims.list().map(claim => summarizeClaim(claim, player.identity)),
+      createClaim: (name, box) => {
+        const refusal = room.world.claims.checkNew(player.identity, name, box);
+        if (refusal) throw new CommandError(refusal);
+        room.world.claims.add({
+          name,
+          ...box,
+          owner: player.identity,
+          ownerName: player.name,
+          members: [],
+          flags: { ...DEFAULT_CLAIM_FLAGS },
+        });
+        console.log(`[claims] ${player.name} in room ${room.code}: claimed "${name}"`);
+        this.broadcastClaims(room);
+      },
+      removeClaim: (name) => {
+        const claim = this.findManagedClaim(room, player, name);
+        room.world.claims.remove(claim);
+        console.log(`[claims] ${player.name} in room ${room.code}: removed "${claim.name}"`);
+        this.broadcastClaims(room);
+      },
+      setClaimMember: (claimName, playerName, member) => {
+        const claim = this.findManagedClaim(room, player, claimName);
+        if (member) {
+          const target = this.findKnownPlayer(room, playerName, false);
+          if (typeof target === 'string') throw new CommandError(target);
+          if (getClaimAccess(claim, target.identity) !== 'none') {
+            throw new CommandError(`${target.name} can already build in "${claim.name}"`);
+          }
+          claim.members.push({ identity: target.identity, name: target.name });
+        } else {
+          const wanted = playerName.toLowerCase();
+          if (!claim.members.some(m => m.name.toLowerCase() === wanted)) {
+            throw new CommandError(`${playerName} is not trusted in "${claim.name}"`);
+          }
+          claim.members = claim.members.filter(m => m.name.toLowerCase() !== wanted);
+        }
+        this.broadcastClaims(room);
+      },
+      setClaimFlag: (claimName, flag, value) => {
+        this.findManagedClaim(room, player, claimName).flags[flag] = value;
+        this.broadcastClaims(room);
+      },
+      getEdits: (filter, limit) => room.journal.find(this.toEditFilter(room, filter), limit).map(entry => ({
+        time: entry.time,
+        actorName: entry.actorName,
+        x: entry.x,
+        y: entry.y,
+        z: entry.z,
+        from: entry.from,
+        to: entry.to,
+        rollback: entry.rollback === true,
+      })),
+      rollback: (filter) => this.rollback(room, player, filter),
+    };
+  }
+
+  /** Undo journaled edits; the restored blocks go out batched like any other changes. */
+  private rollback(room: Room, actor: PlayerInfo, filter: CommandEditFilter): number {
+    const changes = room.journal.planRollback(this.toEditFilter(room, filter), (x, y, z) => room.world.getBlock(x, y, z));
+    if (changes.length === 0) return 0;
+
+    const now = Date.now();
+    for (const change of changes) {
+      const { x, y, z, blockType } = change;
+      const from = room.world.getBlock(x, y, z);
+      room.world.setBlock(x, y, z, blockType);
+      room.journal.record({ time: now, actor: actor.identity, actorName: actor.name, x, y, z, from, to: blockType, rollback: true });
+      this.queueBlockChange(room.code, x, y, z, blockType);
+    }
+
+    console.log(`[rollback] ${actor.name} in room ${room.code}: restored ${changes.length} blocks`);
+    return changes.length;
+  }
+
+  /** Resolve a command's filter to journal actors: player names first, then NPC names. */
+  private toEditFilter(room: Room, filter: CommandEditFilter): EditFilter {
+    if (filter.actorName === undefined) return { box: filter.box, since: filter.since };
+
+    const player = this.findKnownPlayer(room, filter.actorName, false);
+    if (typeof player !== 'string') return { actor: player.identity, box: filter.box, since: filter.since };
+
+    const npc = room.journal.findNpcActor(filter.actorName);
+    if (!npc) throw new CommandError(player);
+    return { actor: npc, box: filter.box, since: filter.since };
+  }
+
+  /** A claim the player may change: their own, or any claim for the host and operators. */
+  private findManagedClaim(room: Room, player: PlayerInfo, name: string): ClaimRecord {
+    const claim = room.world.claims.get(name);
+    if (!claim) throw new CommandError(`No claim named "${name}"`);
+    if (claim.owner !== player.identity && !hasRole(getRole(room.meta, player.identity), 'operator')) {
+      throw new CommandError(`"${claim.name}" belongs to ${claim.ownerName}`);
+    }
+    return claim;
+  }
+
+  /** Claims are summarized per player, who is told which ones they may build in. */
+  private sendClaims(ws: WebSocket, room: Room, identity: string): void {
+    const message: ClaimsMessage = {
+      type: MessageType.Claims,
+      claims: room.world.claims.list().map(claim => summarizeClaim(claim, identity)),
+    };
+    this.send(ws, message);
+  }
+
+  private broadcastClaims(room: Room): void {
+    for (const player of room.players.values()) {
+      this.sendClaims(player.ws, room, player.identity);
+    }
+  }
+
+  /**
+   * Hold a movement or block edit for the player's room's next tick. Only the latest movement
+   * is kept, and edits past the per-tick budget are refused, so one flooding client can't
+   * crowd out everyone else's inputs.
+   */
+  private queueInput(ws: WebSocket, message: SimulationInput): void {
+    const playerInfo = this.wsToPlayer.get(ws);
+    const room = playerInfo && this.rooms.get(playerInfo.roomCode);
+    const player = playerInfo && room?.players.get(playerInfo.playerId);
+    if (!room || !player) return;
+
+    if (message.type === MessageType.PlayerUpdate) {
+      if (player.queuedUpdate) {
+        // Keeps its place in the queue; the movement budget covers the skipped steps
+        player.queuedUpdate.message = message;
+        return;
+      }
+      player.queuedUpdate = { ws, roomCode: room.code, playerId: playerInfo.playerId, message };
+      room.inputs.push(player.queuedUpdate);
+      return;
+    }
+
+    if (player.queuedEdits >= MAX_QUEUED_EDITS) {
+      this.sendBlockAck(ws, room, message.seq, false, message.x, message.y, message.z);
+      return;
+    }
+    player.queuedEdits++;
+    room.inputs.push({ ws, roomCode: room.code, playerId: playerInfo.playerId, message });
+  }
+
+  /** Buffer a block change for the end of the room's tick. */
+  private queueBlockChange(roomCode: string, x: number, y: number, z: number, blockType: number): void {
+    this.rooms.get(roomCode)?.blockChanges.add(x, y, z, blockType);
+  }
+
+  /** Send one message per touched chunk to the players subscribed to it. */
+  private flushBlockChanges(room: Room): void {
+    for (const message of room.blockChanges.drain()) {
+      for (const player of room.players.values()) {
+        if (isChunkSubscribed(player.subscription, message.cx, message.cz)) this.send(player.ws, message);
+      }
+    }
+  }
+
   private broadcastToRoom(roomCode: string, message: ServerMessage, excludeWs?: WebSocket): void {
     const room = this.rooms.get(roomCode);
     if (!room) return;
@@ -399,12 +1452,44 @@ export class NetworkManager {
     }
   }
 
+  private sendNotice(ws: WebSocket, message: string): void {
+    const notice: SystemNoticeMessage = { type: MessageType.SystemNotice, message };
+    this.send(ws, notice);
+  }
+
   private send(ws: WebSocket, message: ServerMessage): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
   }
 
+  private sendBinary(ws: WebSocket, frame: Uint8Array): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(frame);
+    }
+  }
+
+  /** Public rooms, open or saved, for the room browser. */
+  listPublicRooms(): RoomListing[] {
+    const toListing = (meta: RoomMeta, players: number): RoomListing => ({
+      code: meta.code,
+      name: meta.name,
+      players,
+      maxPlayers: meta.maxPlayers,
+      hasPassword: meta.password !== null,
+      rules: meta.rules,
+    });
+
+    const listings: RoomListing[] = [];
+    for (const room of this.rooms.values()) {
+      if (room.meta.visibility === 'public') listings.push(toListing(room.meta, room.players.size));
+    }
+    for (const meta of this.savedMetas.values()) {
+      if (meta.visibility === 'public' && !this.rooms.has(meta.code)) listings.push(toListing(meta, 0));
+    }
+    return listings.sort((a, b) => b.players - a.players || a.name.localeCompare(b.name));
+  }
+
   getRoomCount(): number {
     return this.rooms.size;
   }
@@ -0,0 +1,109 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { RoomMeta } from '../world/WorldSave.js';
+
+// scrypt is deliberately slow, so it runs on the libuv thread pool (never the event loop every room
+// ticks on), and failed attempts are limited before any hashing so guessing passwords stays slow too.
+// Limits are per guesser (connection and address), never per room: nobody can lock a room for others.
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+const CONNECTION_BURST = 5; // failed attempts one connection may make back to back
+const CONNECTION_RATE = 1 / 10; // further failed attempts per second
+const ADDRESS_BURST = 10; // failed attempts from one address, over all its connections
+const ADDRESS_RATE = 1 / 6;
+
+type StoredPassword = NonNullable<RoomMeta['password']>;
+
+export async function hashPassword(password: string): Promise<RoomMeta['password']> {
+  if (!password) return null;
+  const salt = randomBytes(16).toString('hex');
+  return { salt, hash: (await scryptAsync(password, salt, KEY_LENGTH)).toString('hex') };
+}
+
+async function passwordMatches(stored: StoredPassword, password: string): Promise<boolean> {
+  const hash = await scryptAsync(password, stored.salt, KEY_LENGTH);
+  return timingSafeEqual(hash, Buffer.from(stored.hash, 'hex'));
+}
+
+/** Token bucket over failed attempts; refills at `rate` per second up to `burst`. */
+class FailureBackoff {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private burst: number, private rate: number) {
+    this.tokens = burst;
+  }
+
+  /** Seconds until another attempt is allowed, 0 if it is allowed now. */
+  waitSeconds(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.rate);
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.refill(now);
+    this.tokens = Math.max(0, this.tokens - 1);
+  }
+
+  /** Back to a full bucket: nothing left to remember. */
+  isIdle(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.burst;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.updatedAt) / 1000 * this.rate);
+    this.updatedAt = now;
+  }
+}
+
+/** Checks room passwords, limiting failed attempts per connection and per remote address. */
+export class RoomPasswordGuard {
+  private byConnection = new WeakMap<object, FailureBackoff>();
+  private byAddress = new Map<string, FailureBackoff>();
+  private checking = new WeakSet<object>(); // connections with a check in progress
+
+  /** Why `password` doesn't let this connection into the room, or null if it does. */
+  async check(
+    connection: object,
+    address: string,
+    roomCode: string,
+    stored: RoomMeta['password'],
+    password: unknown,
+  ): Promise<string | null> {
+    if (!stored) return null;
+    // The join screen first tries without one: not a guess
+    if (typeof password !== 'string' || !password) return `Room "${roomCode}" needs a password`;
+
+    if (this.checking.has(connection)) return 'Still checking your previous password';
+    const connectionBackoff = this.byConnection.get(connection) ?? new FailureBackoff(CONNECTION_BURST, CONNECTION_RATE);
+    this.byConnection.set(connection, connectionBackoff);
+    const addressBackoff = this.byAddress.get(address) ?? new FailureBackoff(ADDRESS_BURST, ADDRESS_RATE);
+    const wait = Math.max(connectionBackoff.waitSeconds(), addressBackoff.waitSeconds());
+    if (wait > 0) {
+      return `Too many wrong passwords, try again in ${wait} seconds`;
+    }
+
+    this.checking.add(connection);
+    try {
+      if (await passwordMatches(stored, password)) return null;
+    } finally {
+      this.checking.delete(connection);
+    }
+
+    connectionBackoff.recordFailure();
+    addressBackoff.recordFailure();
+    this.byAddress.set(address, addressBackoff);
+    this.forgetIdleAddresses();
+    console.warn(`[moderation] Wrong password for room ${roomCode} from ${address}`);
+    return `Wrong password for room "${roomCode}"`;
+  }
+
+  private forgetIdleAddresses(): void {
+    for (const [address, backoff] of this.byAddress) {
+      if (backoff.isIdle()) this.byAddress.delete(address);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { emptySnapshot, encodeSnapshotFrame, sameSnapshot, type Snapshot } from '../../shared/SnapshotCodec.js';
+
+const MAX_UNACKED = 64; // snapshots kept waiting for an ack before starting over from empty states
+
+/** The snapshots sent to one client, so each new one can be delta-encoded against the last it acknowledged. */
+export class SnapshotHistory {
+  private sent = new Map<number, Snapshot>();
+  private lastSent = emptySnapshot();
+  private nextSeq = 1;
+  private ackedSeq = 0;
+
+  /** Make an acknowledged snapshot the baseline; unknown or older seqs are ignored. */
+  ack(seq: number): void {
+    if (!Number.isInteger(seq) || seq <= this.ackedSeq || !this.sent.has(seq)) return;
+    this.ackedSeq = seq;
+    for (const sentSeq of this.sent.keys()) {
+      if (sentSeq < seq) this.sent.delete(sentSeq);
+    }
+  }
+
+  /** Encode the next snapshot, or null when nothing changed since the last one sent. */
+  next(current: Snapshot): Uint8Array | null {
+    if (sameSnapshot(current, this.lastSent)) return null;
+
+    if (this.sent.size >= MAX_UNACKED) {
+      this.sent.clear();
+      this.ackedSeq = 0;
+    }
+
+    const baseline = this.sent.get(this.ackedSeq) ?? emptySnapshot();
+    const frame = encodeSnapshotFrame(this.nextSeq, this.ackedSeq, baseline, current);
+    this.sent.set(this.nextSeq++, current);
+    this.lastSent = current;
+    return frame;
+  }
+}
@@ -0,0 +1,98 @@
+export const TICK_RATE = 20; // ticks per second
+export const TICK_INTERVAL = 1000 / TICK_RATE; // ms
+
+const STATS_WINDOW = TICK_RATE * 5; // ticks the duration stats cover
+const MAX_CATCH_UP = 5; // late ticks run back to back before the loop skips ahead
+const OVERLOAD_WARNING_INTERVAL = 10 * 1000; // ms between overload warnings
+
+/** How a loop kept up over its last STATS_WINDOW ticks. */
+export interface TickStats {
+  tickRate: number;
+  averageMs: number;
+  maxMs: number;
+  overruns: number; // ticks that took longer than TICK_INTERVAL
+  skipped: number; // ticks dropped because the loop fell too far behind, since it started
+}
+
+/**
+ * Calls onTick TICK_RATE times a second with a fixed tick number, whatever the timer drift:
+ * late ticks are caught up back to back, and under overload the loop skips ahead and warns.
+ */
+export class TickLoop {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private nextTickAt = 0;
+  private tick = 0;
+  private durations: number[] = [];
+  private skipped = 0;
+  private lastWarningAt = -Infinity;
+
+  constructor(
+    private label: string,
+    private onTick: (tick: number) => void,
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.nextTickAt = performance.now();
+    this.schedule();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get stats(): TickStats {
+    const total = this.durations.reduce((sum, duration) => sum + duration, 0);
+    return {
+      tickRate: TICK_RATE,
+      averageMs: this.durations.length > 0 ? total / this.durations.length : 0,
+      maxMs: Math.max(0, ...this.durations),
+      overruns: this.durations.filter(duration => duration > TICK_INTERVAL).length,
+      skipped: this.skipped,
+    };
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.run(), Math.max(0, this.nextTickAt - performance.now()));
+  }
+
+  private run(): void {
+    this.timer = null;
+
+    const late = Math.floor((performance.now() - this.nextTickAt) / TICK_INTERVAL);
+    if (late > MAX_CATCH_UP) {
+      const skip = late - MAX_CATCH_UP;
+      this.skipped += skip;
+      this.nextTickAt += skip * TICK_INTERVAL;
+      this.warn(`fell ${late} ticks behind, skipped ${skip}`);
+    }
+
+    while (this.running && performance.now() >= this.nextTickAt) {
+      const startedAt = performance.now();
+      this.onTick(this.tick++);
+      const duration = performance.now() - startedAt;
+
+      this.durations.push(duration);
+      if (this.durations.length > STATS_WINDOW) this.durations.shift();
+      if (duration > TICK_INTERVAL) {
+        this.warn(`tick took ${duration.toFixed(1)}ms (budget ${TICK_INTERVAL}ms)`);
+      }
+      this.nextTickAt += TICK_INTERVAL;
+    }
+
+    if (this.running) this.schedule();
+  }
+
+  private warn(reason: string): void {
+    const now = performance.now();
+    if (now - this.lastWarningAt < OVERLOAD_WARNING_INTERVAL) return;
+    this.lastWarningAt = now;
+    console.warn(`[tick] ${this.label} is overloaded: ${reason}`);
+  }
+}
@@ -0,0 +1,65 @@
+// Offline world maintenance: upgrade or verify every save in a worlds/ directory.
+//
+//   npm run worlds:migrate [-- <worldsDir>]   upgrade saves to the current version (originals backed up)
+//   npm run worlds:verify [-- <worldsDir>]    report versions and check current saves decode, without writing
+
+import { existsSync, readdirSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SAVE_VERSION, readSaveVersion } from '../world/WorldSave.js';
+import { getMigrationPath, upgradeWorld, verifyWorld } from '../world/SaveMigrations.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const args = process.argv.slice(2);
+const verifyOnly = args.includes('--verify');
+const worldsDir = args.find(arg => !arg.startsWith('--')) ?? path.join(__dirname, '..', '..', 'worlds');
+
+function describeWorld(worldDir: string, version: number): string {
+  if (version !== SAVE_VERSION) {
+    const steps = getMigrationPath(version).map(step => `v${step.from}->v${step.to}`);
+    return `needs migration (${steps.join(', ')})`;
+  }
+  const { seed, chunkCount } = verifyWorld(worldDir);
+  return `ok (seed ${seed}, ${chunkCount} chunks)`;
+}
+
+function main(): number {
+  if (!existsSync(worldsDir)) {
+    console.error(`Worlds directory not found: ${worldsDir}`);
+    return 1;
+  }
+
+  let failures = 0;
+  const codes = readdirSync(worldsDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name);
+
+  for (const code of codes) {
+    const worldDir = path.join(worldsDir, code);
+    try {
+      const version = readSaveVersion(worldDir);
+      if (version === null) continue;
+
+      if (verifyOnly) {
+        console.log(`${code}: v${version} ${describeWorld(worldDir, version)}`);
+        continue;
+      }
+
+      const result = upgradeWorld(worldDir)!;
+      if (result.from === result.to) {
+        console.log(`${code}: already v${SAVE_VERSION}`);
+      } else {
+        console.log(`${code}: v${result.from} -> v${result.to} (backup in ${result.backupDir})`);
+      }
+    } catch (err) {
+      failures++;
+      console.error(`${code}: FAILED - ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  console.log(`${codes.length} worlds checked, ${failures} failed`);
+  return failures > 0 ? 1 : 0;
+}
+
+process.exit(main());
@@ -0,0 +1,106 @@
+import type { BlockBox, ClaimAccess, ClaimSummary } from '../../shared/Protocol.js';
+import {
+  CLAIM_NAME_MAX_LENGTH,
+  DEFAULT_CLAIM_FLAGS,
+  MAX_CLAIMS_PER_PLAYER,
+  MAX_CLAIM_SIZE,
+  boxContains,
+  boxesOverlap,
+} from '../../shared/Claims.js';
+import { WORLD_HEIGHT } from '../../shared/ChunkConstants.js';
+import type { ClaimRecord } from './WorldSave.js';
+
+export type NpcClaimAction = 'gather' | 'build';
+
+export function getClaimAccess(claim: ClaimRecord, identity: string): ClaimAccess {
+  if (claim.owner === identity) return 'owner';
+  if (claim.members.some(member => member.identity === identity)) return 'member';
+  return 'none';
+}
+
+export function summarizeClaim(claim: ClaimRecord, identity: string): ClaimSummary {
+  return {
+    name: claim.name,
+    minX: claim.minX,
+    minY: claim.minY,
+    minZ: claim.minZ,
+    maxX: claim.maxX,
+    maxY: claim.maxY,
+    maxZ: claim.maxZ,
+    ownerName: claim.ownerName,
+    memberNames: claim.members.map(member => member.name),
+    flags: { ...claim.flags },
+    access: getClaimAccess(claim, identity),
+  };
+}
+
+/** A world's protected regions, saved with its level metadata. */
+export class ClaimMap {
+  private claims: ClaimRecord[];
+
+  constructor(saved: ClaimRecord[] = []) {
+    // Claims saved before a flag existed get its default
+    this.claims = saved.map(claim => ({ ...claim, flags: { ...DEFAULT_CLAIM_FLAGS, ...claim.flags } }));
+  }
+
+  list(): readonly ClaimRecord[] {
+    return this.claims;
+  }
+
+  get(name: string): ClaimRecord | undefined {
+    const wanted = name.toLowerCase();
+    return this.claims.find(claim => claim.name.toLowerCase() === wanted);
+  }
+
+  add(claim: ClaimRecord): void {
+    this.claims.push(claim);
+  }
+
+  remove(claim: ClaimRecord): void {
+    this.claims = this.claims.filter(c => c !== claim);
+  }
+
+  /**
+   * Check that `owner` may claim `box` under `name`.
+   * Returns the reason it is refused, or null if it is allowed.
+   */
+  checkNew(owner: string, name: string, box: BlockBox): string | null {
+    if (!/^[A-Za-z0-9_-]+$/.test(name) || name.length > CLAIM_NAME_MAX_LENGTH) {
+      return `Claim names are up to ${CLAIM_NAME_MAX_LENGTH} letters, digits, - or _`;
+    }
+    if (this.get(name)) return `There is already a claim named "${name}"`;
+    if (box.minY < 0 || box.maxY >= WORLD_HEIGHT) return `Claims must stay between y 0 and ${WORLD_HEIGHT - 1}`;
+    if (box.maxX - box.minX >= MAX_CLAIM_SIZE || box.maxZ - box.minZ >= MAX_CLAIM_SIZE) {
+      return `Claims can be at most ${MAX_CLAIM_SIZE}x${MAX_CLAIM_SIZE} blocks`;
+    }
+    if (this.claims.filter(claim => claim.owner === owner).length >= MAX_CLAIMS_PER_PLAYER) {
+      return `You already have ${MAX_CLAIMS_PER_PLAYER} claims`;
+    }
+    const overlapping = this.claims.find(claim => claim.owner !== owner && boxesOverlap(claim, box));
+    if (overlapping) return `That overlaps ${overlapping.ownerName}'s claim "${overlapping.name}"`;
+    return null;
+  }
+
+  /** The claim stopping a player from placing (or breaking) this block, or null if they may. */
+  blockingPlayer(identity: string, x: number, y: number, z: number, breaking: boolean): ClaimRecord | null {
+    for (const claim of this.claims) {
+      if (!boxContains(claim, x, y, z) || getClaimAccess(claim, identity) !== 'none') continue;
+      if (breaking ? claim.flags.noBreak : claim.flags.noBuild) return claim;
+    }
+    return null;
+  }
+
+  allowsNpc(action: NpcClaimAction, x: number, y: number, z: number): boolean {
+    return this.allowsNpcIn(action, { minX: x, minY: y, minZ: z, maxX: x, maxY: y, maxZ: z });
+  }
+
+  /** Whether NPCs may gather or build anywhere in the box. */
+  allowsNpcIn(action: NpcClaimAction, box: BlockBox): boolean {
+    return !this.claims.some(claim =>
+      (action === 'gather' ? claim.flags.noNpcGather : claim.flags.noNpcBuild) && boxesOverlap(claim, box));
+  }
+
+  serialize(): ClaimRecord[] {
+    return this.claims.map(claim => ({ ...claim, members: [...claim.members], flags: { ...claim.flags } }));
+  }
+}
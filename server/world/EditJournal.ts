@@ -0,0 +1,247 @@
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { BlockType } from '../../shared/BlockTypes.js';
+import { boxContains } from '../../shared/Claims.js';
+import type { BlockBox, BlockChange } from '../../shared/Protocol.js';
+import { getWorldDir } from './WorldSave.js';
+
+// worlds/<code>/journal.jsonl: one JSON EditRecord per line, only ever appended to
+
+const JOURNAL_FILE = 'journal.jsonl';
+const RECENT_ENTRIES = 10_000; // kept in memory; queries reaching further back read the file
+const READ_BLOCK_SIZE = 64 * 1024;
+const MAX_SCAN_BYTES = 8 * 1024 * 1024; // read per query before older history is left out
+
+export interface EditRecord {
+  time: number;
+  actor: string; // player identity, or "npc:<name>"
+  actorName: string;
+  x: number;
+  y: number;
+  z: number;
+  from: BlockType;
+  to: BlockType;
+  rollback?: true; // made by a rollback rather than by hand
+}
+
+export interface EditFilter {
+  actor?: string;
+  box?: BlockBox;
+  since?: number; // ms timestamp
+}
+
+export function npcActor(npcName: string): string {
+  return `npc:${npcName}`;
+}
+
+/**
+ * Every block edit made in a room, appended to disk on save. Only the newest edits (and any
+ * not saved yet) stay in memory; queries that reach further back read the file backwards from
+ * where the in-memory window starts, and give up after MAX_SCAN_BYTES so a long-lived world's
+ * journal never stalls the event loop.
+ */
+export class EditJournal {
+  private recent: EditRecord[] = []; // oldest first
+  private offsets: number[] = []; // file offset of each saved entry in `recent`
+  private unsavedCount = 0; // entries at the end of `recent` not in the file yet
+  private fileSize = 0;
+  private endsMidLine = false; // a crash mid-append left a torn last line
+  private npcActors = new Map<string, string>(); // lowercased actor id -> actor id, for NPCs seen so far
+
+  private constructor(private filePath: string) {}
+
+  static load(worldsDir: string, roomCode: string): EditJournal {
+    const journal = new EditJournal(join(getWorldDir(worldsDir, roomCode), JOURNAL_FILE));
+    if (!existsSync(journal.filePath)) return journal;
+
+    journal.fileSize = statSync(journal.filePath).size;
+    journal.endsMidLine = journal.fileSize > 0 && lastByte(journal.filePath, journal.fileSize) !== 0x0a;
+    const unreadable = readEntriesBackwards(journal.filePath, journal.fileSize, Infinity, (entry, offset) => {
+      journal.recent.push(entry);
+      journal.offsets.push(offset);
+      journal.indexActor(entry);
+      return journal.recent.length < RECENT_ENTRIES;
+    });
+    if (unreadable > 0) {
+      // A crash mid-append leaves a torn last line; everything before it is intact
+      console.warn(`Skipping ${unreadable} unreadable line(s) in ${journal.filePath}`);
+    }
+    journal.recent.reverse();
+    journal.offsets.reverse();
+    return journal;
+  }
+
+  record(entry: EditRecord): void {
+    this.recent.push(entry);
+    this.unsavedCount++;
+    this.indexActor(entry);
+  }
+
+  /** Matching edits, newest first. */
+  find(filter: EditFilter, limit: number): EditRecord[] {
+    const found: EditRecord[] = [];
+    this.forEachNewestFirst(filter, entry => {
+      found.push(entry);
+      return found.length < limit;
+    });
+    return found;
+  }
+
+  /** An NPC's actor id by name, if one edited this world recently enough to be found. */
+  findNpcActor(npcName: string): string | null {
+    const key = npcActor(npcName).toLowerCase();
+    if (!this.npcActors.has(key)) {
+      this.forEachNewestFirst({}, entry => {
+        this.indexActor(entry);
+        return !this.npcActors.has(key);
+      });
+    }
+    return this.npcActors.get(key) ?? null;
+  }
+
+  /**
+   * The changes that undo every matching edit: each block goes back to what it was before the
+   * first of them. Blocks changed since by an edit outside the filter are left alone.
+   */
+  planRollback(filter: EditFilter, getBlock: (x: number, y: number, z: number) => BlockType): BlockChange[] {
+    const byPosition = new Map<string, { first: EditRecord; last: EditRecord }>();
+    this.forEachNewestFirst(filter, entry => {
+      const key = `${entry.x},${entry.y},${entry.z}`;
+      const edits = byPosition.get(key);
+      if (edits) {
+        edits.first = entry;
+      } else {
+        byPosition.set(key, { first: entry, last: entry });
+      }
+      return true;
+    });
+
+    const changes: BlockChange[] = [];
+    for (const { first, last } of byPosition.values()) {
+      const current = getBlock(first.x, first.y, first.z);
+      if (current !== last.to || current === first.from) continue;
+      changes.push({ x: first.x, y: first.y, z: first.z, blockType: first.from });
+    }
+    return changes;
+  }
+
+  /** Append edits recorded since the last flush. */
+  flush(): void {
+    if (this.unsavedCount === 0) return;
+    // Start on a fresh line so a torn one can't swallow the first new entry
+    let text = this.endsMidLine ? '\n' : '';
+    let offset = this.fileSize + text.length;
+    for (const entry of this.recent.slice(-this.unsavedCount)) {
+      const line = JSON.stringify(entry) + '\n';
+      this.offsets.push(offset);
+      offset += Buffer.byteLength(line);
+      text += line;
+    }
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    appendFileSync(this.filePath, text);
+    this.fileSize = offset;
+    this.endsMidLine = false;
+    this.unsavedCount = 0;
+    this.trim();
+  }
+
+  /** Let go of saved entries beyond the in-memory window; they can be read back from the file. */
+  private trim(): void {
+    const excess = Math.min(this.recent.length - RECENT_ENTRIES, this.offsets.length);
+    if (excess <= 0) return;
+    this.recent.splice(0, excess);
+    this.offsets.splice(0, excess);
+  }
+
+  private indexActor(entry: EditRecord): void {
+    if (entry.actor.startsWith(npcActor(''))) this.npcActors.set(entry.actor.toLowerCase(), entry.actor);
+  }
+
+  /**
+   * Matching entries newest first, from memory and then from the file, until `visit` returns
+   * false, an entry is older than `since`, or MAX_SCAN_BYTES of the file have been read.
+   */
+  private forEachNewestFirst(filter: EditFilter, visit: (entry: EditRecord) => boolean): void {
+    // Entries are appended in time order, so nothing past the first one before `since` can match
+    const visitUntilSince = (entry: EditRecord): boolean => {
+      if (filter.since !== undefined && entry.time < filter.since) return false;
+      return !matches(entry, filter) || visit(entry);
+    };
+
+    for (let i = this.recent.length - 1; i >= 0; i--) {
+      if (!visitUntilSince(this.recent[i])) return;
+    }
+    const olderEnd = this.offsets.length > 0 ? this.offsets[0] : this.fileSize;
+    if (olderEnd === 0) return;
+    readEntriesBackwards(this.filePath, olderEnd, MAX_SCAN_BYTES, visitUntilSince);
+  }
+}
+
+function lastByte(filePath: string, fileSize: number): number {
+  const fd = openSync(filePath, 'r');
+  try {
+    const byte = Buffer.alloc(1);
+    readSync(fd, byte, 0, 1, fileSize - 1);
+    return byte[0];
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Parse the entries that end before byte `end` of the file, last first, a block at a time,
+ * until `visit` returns false or more than `maxBytes` have been read. Each entry comes with
+ * the offset its line starts at. Returns how many lines couldn't be parsed (they are skipped).
+ */
+function readEntriesBackwards(
+  filePath: string,
+  end: number,
+  maxBytes: number,
+  visit: (entry: EditRecord, offset: number) => boolean,
+): number {
+  let unreadable = 0;
+  const visitLine = (data: Buffer, start: number, stop: number, offset: number): boolean => {
+    if (start === stop) return true;
+    let entry: EditRecord;
+    try {
+      entry = JSON.parse(data.toString('utf8', start, stop)) as EditRecord;
+    } catch {
+      unreadable++;
+      return true;
+    }
+    return visit(entry, offset);
+  };
+
+  const fd = openSync(filePath, 'r');
+  try {
+    let position = end;
+    let pending = Buffer.alloc(0); // a line cut off at the start of the last block read
+    while (position > 0) {
+      if (end - position >= maxBytes) return unreadable;
+      const blockStart = Math.max(0, position - READ_BLOCK_SIZE);
+      const block = Buffer.alloc(position - blockStart);
+      readSync(fd, block, 0, block.length, blockStart);
+      const data = Buffer.concat([block, pending]);
+      let stop = data.length;
+      while (stop > 0) {
+        const newline = data.lastIndexOf(0x0a, stop - 1);
+        if (newline === -1) break;
+        if (!visitLine(data, newline + 1, stop, blockStart + newline + 1)) return unreadable;
+        stop = newline;
+      }
+      pending = data.subarray(0, stop);
+      position = blockStart;
+    }
+    visitLine(pending, 0, pending.length, 0);
+    return unreadable;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function matches(entry: EditRecord, filter: EditFilter): boolean {
+  if (filter.actor !== undefined && entry.actor !== filter.actor) return false;
+  if (filter.since !== undefined && entry.time < filter.since) return false;
+  if (filter.box && !boxContains(filter.box, entry.x, entry.y, entry.z)) return false;
+  return true;
+}
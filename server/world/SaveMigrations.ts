@@ -0,0 +1,185 @@
+import { readFileSync, existsSync, mkdirSync, copyFileSync, cpSync, statSync, renameSync, rmSync } from 'fs';
+import { join } from 'path';
+import { BLOCKS_PER_CHUNK, chunkKey } from '../../shared/ChunkConstants.js';
+import {
+  SAVE_VERSION,
+  readSaveVersion,
+  readRegionChunks,
+  readWorldHeader,
+  writeFileAtomic,
+  writeRegionChunks,
+} from './WorldSave.js';
+
+// Each step upgrades a save by exactly one version and writes its own target layout,
+// so old steps keep working when the current format moves on.
+
+export interface SaveMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(worldDir: string): void;
+}
+
+export interface UpgradeResult {
+  from: number;
+  to: number;
+  backupDir: string | null;
+}
+
+// Inside the world: a copy is upgraded in migrating/, renamed to migrated/ once it decodes, then
+// swapped in by renames that finishSwap() can pick up again after a crash
+const STAGING_DIR = 'migrating';
+const VERIFIED_DIR = 'migrated';
+const OLD_REGION_DIR = 'region.old';
+
+function worldFile(worldDir: string): string {
+  return join(worldDir, 'world.bin');
+}
+
+const MIGRATIONS: SaveMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'split raw chunks out of world.bin into compressed region files',
+    migrate(worldDir) {
+      // v1: i32 version, i32 seed, i32 chunk count, then per chunk 3 x i32 key + raw blocks
+      const buf = readFileSync(worldFile(worldDir));
+      const seed = buf.readInt32LE(4);
+      const chunkCount = buf.readInt32LE(8);
+
+      const chunks = new Map<string, Uint8Array>();
+      let offset = 12;
+      for (let i = 0; i < chunkCount; i++) {
+        const cx = buf.readInt32LE(offset);
+        const cy = buf.readInt32LE(offset + 4);
+        const cz = buf.readInt32LE(offset + 8);
+        offset += 12;
+        chunks.set(chunkKey(cx, cy, cz), buf.subarray(offset, offset + BLOCKS_PER_CHUNK));
+        offset += BLOCKS_PER_CHUNK;
+      }
+      writeRegionChunks(worldDir, chunks, chunks.keys());
+
+      // v2: i32 version, i32 seed
+      const header = Buffer.alloc(8);
+      header.writeInt32LE(2, 0);
+      header.writeInt32LE(seed, 4);
+      writeFileAtomic(worldFile(worldDir), header);
+    },
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'add level metadata to world.bin',
+    migrate(worldDir) {
+      const filePath = worldFile(worldDir);
+      const seed = readFileSync(filePath).readInt32LE(4);
+
+      // v3: i32 version, i32 seed, i32 metadata length, JSON metadata
+      const json = Buffer.from(JSON.stringify({ savedAt: statSync(filePath).mtimeMs }), 'utf8');
+      const header = Buffer.alloc(12 + json.length);
+      header.writeInt32LE(3, 0);
+      header.writeInt32LE(seed, 4);
+      header.writeInt32LE(json.length, 8);
+      header.set(json, 12);
+      writeFileAtomic(filePath, header);
+    },
+  },
+];
+
+/** The chain of steps from a version up to SAVE_VERSION; throws if a step is missing. */
+export function getMigrationPath(fromVersion: number): SaveMigration[] {
+  if (fromVersion > SAVE_VERSION) {
+    throw new Error(`Save version ${fromVersion} is newer than this server (${SAVE_VERSION})`);
+  }
+
+  const path: SaveMigration[] = [];
+  let version = fromVersion;
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      throw new Error(`No migration from save version ${version}`);
+    }
+    path.push(step);
+    version = step.to;
+  }
+  return path;
+}
+
+/** Decode a current-version save in full; throws if any of it can't be read. */
+export function verifyWorld(worldDir: string): { seed: number; chunkCount: number } {
+  const { seed } = readWorldHeader(worldDir);
+  return { seed, chunkCount: readRegionChunks(worldDir).size };
+}
+
+/** Copy world.bin and the region files (the save itself, not room.json or the journal) to another directory. */
+function copySave(worldDir: string, targetDir: string): void {
+  mkdirSync(targetDir, { recursive: true });
+  copyFileSync(worldFile(worldDir), worldFile(targetDir));
+  const regionDir = join(worldDir, 'region');
+  if (existsSync(regionDir)) {
+    cpSync(regionDir, join(targetDir, 'region'), { recursive: true });
+  }
+}
+
+/**
+ * Move a verified copy into place, or finish doing so after a crash. Every step is a rename that is
+ * only made while its source still exists, so running this again from any point completes the swap.
+ */
+function finishSwap(worldDir: string): void {
+  const verifiedDir = join(worldDir, VERIFIED_DIR);
+  const regionDir = join(worldDir, 'region');
+  const oldRegionDir = join(worldDir, OLD_REGION_DIR);
+
+  if (existsSync(verifiedDir)) {
+    if (existsSync(join(verifiedDir, 'region'))) {
+      if (existsSync(regionDir)) {
+        rmSync(oldRegionDir, { recursive: true, force: true });
+        renameSync(regionDir, oldRegionDir);
+      }
+      renameSync(join(verifiedDir, 'region'), regionDir);
+    }
+    // world.bin goes last: until it is replaced, the save reads as the old version
+    if (existsSync(worldFile(verifiedDir))) {
+      renameSync(worldFile(verifiedDir), worldFile(worldDir));
+    }
+    rmSync(verifiedDir, { recursive: true, force: true });
+  }
+  rmSync(oldRegionDir, { recursive: true, force: true });
+}
+
+/**
+ * Bring a saved world up to SAVE_VERSION. The steps run on a copy, which only replaces the save
+ * once it decodes; the original files are kept in backup/v<version>-<timestamp>/ inside the world.
+ * Returns null when there is no save in the directory; throws when it can't be upgraded, leaving the save as it was.
+ */
+export function upgradeWorld(worldDir: string): UpgradeResult | null {
+  finishSwap(worldDir); // in case a previous upgrade was cut short
+  const version = readSaveVersion(worldDir);
+  if (version === null) return null;
+  if (version === SAVE_VERSION) return { from: version, to: version, backupDir: null };
+
+  const path = getMigrationPath(version);
+  const stagingDir = join(worldDir, STAGING_DIR);
+  rmSync(stagingDir, { recursive: true, force: true }); // left over from an attempt that failed
+  copySave(worldDir, stagingDir);
+  try {
+    for (const step of path) {
+      step.migrate(stagingDir);
+    }
+    verifyWorld(stagingDir);
+  } catch (err) {
+    rmSync(stagingDir, { recursive: true, force: true });
+    throw err;
+  }
+
+  const backupDir = join(worldDir, 'backup', `v${version}-${Date.now()}`);
+  copySave(worldDir, backupDir);
+
+  renameSync(stagingDir, join(worldDir, VERIFIED_DIR));
+  finishSwap(worldDir);
+
+  for (const step of path) {
+    console.log(`Migrated ${worldDir} from v${step.from} to v${step.to}: ${step.description}`);
+  }
+  return { from: version, to: SAVE_VERSION, backupDir };
+}
@@ -0,0 +1,25 @@
+import { START_DAY_TIME, advanceDayTime } from '../../shared/WorldTime.js';
+
+/**
+ * A room's time of day, advanced by the room's tick loop, so it only moves while the room is open.
+ * A stopped clock (daylight cycle rule off) stays at the time it was set to.
+ */
+export class WorldClock {
+  private dayTime: number;
+
+  constructor(dayTime: number = START_DAY_TIME, readonly running: boolean = true) {
+    this.dayTime = dayTime;
+  }
+
+  getDayTime(): number {
+    return this.dayTime;
+  }
+
+  setDayTime(dayTime: number): void {
+    this.dayTime = advanceDayTime(dayTime, 0);
+  }
+
+  advance(seconds: number): void {
+    if (this.running) this.dayTime = advanceDayTime(this.dayTime, seconds);
+  }
+}
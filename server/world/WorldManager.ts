@@ -9,28 +9,50 @@ import {
   chunkKey,
 } from '../../shared/ChunkConstants.js';
 import { TerrainGenerator } from './TerrainGenerator.js';
-import { saveWorld, loadWorld } from './WorldSave.js';
+import { saveWorld, loadWorld, getWorldDir, type ClaimRecord, type LevelMeta } from './WorldSave.js';
+import { upgradeWorld } from './SaveMigrations.js';
+import { ClaimMap } from './Claims.js';
+
+// Generated chunks kept around for block lookups (movement and NPC checks hit the same few chunks constantly)
+const GENERATED_CACHE_SIZE = 256; // ~8MB
 
 export class WorldManager {
   readonly seed: number;
+  readonly claims: ClaimMap; // checked by callers before setBlock: players and NPCs are held to different flags
   private terrainGenerator: TerrainGenerator;
   private modifiedChunks: Map<string, Uint8Array> = new Map();
+  private dirtyChunks: Set<string> = new Set(); // modified since the last save
+  private generatedChunks: Map<string, Uint8Array> = new Map(); // least recently used first
 
-  constructor(seed: number) {
+  constructor(seed: number, claims?: ClaimRecord[]) {
     this.seed = seed;
+    this.claims = new ClaimMap(claims);
     this.terrainGenerator = new TerrainGenerator(seed);
   }
 
-  save(worldsDir: string, roomCode: string): void {
-    if (this.modifiedChunks.size === 0) return;
-    saveWorld(worldsDir, roomCode, this.seed, this.modifiedChunks);
-  }
+  /**
+   * Restore a saved world with its original seed, upgrading older save layouts first.
+   * Returns null if there is no readable save.
+   */
+  static fromSave(worldsDir: string, roomCode: string): { world: WorldManager; meta: LevelMeta } | null {
+    try {
+      if (!upgradeWorld(getWorldDir(worldsDir, roomCode))) return null;
+    } catch (err) {
+      console.error(`Cannot upgrade world ${roomCode}:`, err);
+      return null;
+    }
 
-  loadSave(worldsDir: string, roomCode: string): boolean {
     const data = loadWorld(worldsDir, roomCode);
-    if (!data) return false;
-    this.modifiedChunks = data.modifiedChunks;
-    return true;
+    if (!data) return null;
+    const world = new WorldManager(data.seed, data.meta.claims);
+    world.modifiedChunks = data.modifiedChunks;
+    return { world, meta: data.meta };
+  }
+
+  // Always written, even without edits, so the room can be reopened with the same seed
+  save(worldsDir: string, roomCode: string, meta: LevelMeta): void {
+    saveWorld(worldsDir, roomCode, { seed: this.seed, meta, modifiedChunks: this.modifiedChunks }, this.dirtyChunks);
+    this.dirtyChunks.clear();
   }
 
   getChunk(cx: number, cy: number, cz: number): Uint8Array {
@@ -41,7 +63,16 @@ export class WorldManager {
       return modified;
     }
 
-    const generated = this.terrainGenerator.generateChunk(cx, cy, cz);
+    let generated = this.generatedChunks.get(key);
+    if (generated) {
+      this.generatedChunks.delete(key);
+    } else {
+      generated = this.terrainGenerator.generateChunk(cx, cy, cz);
+      if (this.generatedChunks.size >= GENERATED_CACHE_SIZE) {
+        this.generatedChunks.delete(this.generatedChunks.keys().next().value!);
+      }
+    }
+    this.generatedChunks.set(key, generated);
     return generated;
   }
 
@@ -69,17 +100,22 @@ export class WorldManager {
 
     let chunk = this.modifiedChunks.get(key);
     if (!chunk) {
-      // Copy generated chunk so we don't mutate the generator's output
-      const generated = this.terrainGenerator.generateChunk(cx, cy, cz);
-      chunk = new Uint8Array(generated);
+      // Copy generated chunk so we don't mutate the cached generator output
+      chunk = new Uint8Array(this.getChunk(cx, cy, cz));
+      this.generatedChunks.delete(key);
       this.modifiedChunks.set(key, chunk);
     }
 
     chunk[blockIndex(lx, ly, lz)] = type;
+    this.dirtyChunks.add(key);
     return true;
   }
 
   getModifiedChunkCount(): number {
     return this.modifiedChunks.size;
   }
+
+  getDirtyChunkCount(): number {
+    return this.dirtyChunks.size;
+  }
 }
@@ -1,16 +1,130 @@
-import { writeFileSync, readFileSync, mkdirSync, existsSync } from 'fs';
+import { writeFileSync, readFileSync, mkdirSync, existsSync, readdirSync, renameSync } from 'fs';
 import { join } from 'path';
-import { BLOCKS_PER_CHUNK } from '../../shared/ChunkConstants.js';
+import { VERTICAL_CHUNKS, chunkKey } from '../../shared/ChunkConstants.js';
+import { encodeChunkData, decodeChunkData } from '../../shared/ChunkCodec.js';
+import type { BlockBox, ClaimFlags, GameRules, RoomVisibility } from '../../shared/Protocol.js';
+import { DEFAULT_GAME_RULES, DEFAULT_MAX_PLAYERS } from '../../shared/RoomOptions.js';
 
-const SAVE_VERSION = 1;
-const HEADER_SIZE = 12; // 4 bytes version + 4 bytes seed + 4 bytes chunk count
-const CHUNK_KEY_SIZE = 12; // 3 x int32 (cx, cy, cz)
+// Save layout (version 3):
+//   worlds/<code>/world.bin               header: version, seed, level metadata (JSON)
+//   worlds/<code>/region/r.<rx>.<rz>.bin  up to 16x16x8 chunks each
+//   worlds/<code>/room.json               room metadata
+//
+// world.bin layout:
+//   i32 version, i32 seed, i32 metadata length, UTF-8 JSON LevelMeta
+//
+// Region file layout:
+//   i32 region format version
+//   offset table: REGION_CHUNKS x (u32 offset, u32 length), offset 0 = chunk not stored
+//   compressed chunk payloads (see ChunkCodec.encodeChunkData)
+//
+// Older layouts are upgraded by SaveMigrations before loading.
+
+export const SAVE_VERSION = 3;
+const HEADER_SIZE = 12; // 4 bytes version + 4 bytes seed + 4 bytes metadata length
+
+const REGION_FORMAT_VERSION = 1;
+const REGION_SIZE = 16; // chunks along X and Z
+const REGION_CHUNKS = REGION_SIZE * REGION_SIZE * VERTICAL_CHUNKS;
+const REGION_TABLE_OFFSET = 4;
+const REGION_HEADER_SIZE = REGION_TABLE_OFFSET + REGION_CHUNKS * 8;
+const REGION_FILE_PATTERN = /^r\.(-?\d+)\.(-?\d+)\.bin$/;
+
+/** Last known state of a player in this world, keyed by their identity. */
+export interface PlayerRecord {
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+  rx: number;
+  ry: number;
+  slot: number;
+  lastSeen: number;
+}
+
+/** An NPC's persistent state; transient paths and timers are dropped. */
+export interface NpcRecord {
+  id: string;
+  name: string;
+  color: [number, number, number];
+  x: number;
+  y: number;
+  z: number;
+  rx: number;
+  ry: number;
+  gathered: Record<string, number>; // block type -> count
+  buildPlan: {
+    template: string;
+    originX: number;
+    originY: number;
+    originZ: number;
+    blockIndex: number;
+  } | null;
+}
+
+/** A protected region; owner and members by player identity. */
+export interface ClaimRecord extends BlockBox {
+  name: string;
+  owner: string;
+  ownerName: string;
+  members: { identity: string; name: string }[];
+  flags: ClaimFlags;
+}
+
+/** World state other than blocks, stored as JSON in world.bin. */
+export interface LevelMeta {
+  savedAt: number;
+  dayTime?: number; // 0-1, see shared/WorldTime
+  players?: Record<string, PlayerRecord>;
+  npcs?: NpcRecord[];
+  claims?: ClaimRecord[];
+}
 
 export interface SaveData {
   seed: number;
+  meta: LevelMeta;
   modifiedChunks: Map<string, Uint8Array>;
 }
 
+/** Room metadata stored next to the world as room.json. */
+export interface RoomMeta {
+  code: string;
+  createdAt: number;
+  createdBy: string;
+  lastSavedAt: number;
+  name: string;
+  visibility: RoomVisibility; // private for rooms saved before room options existed
+  maxPlayers: number;
+  rules: GameRules;
+  password: { salt: string; hash: string } | null; // scrypt, hex encoded
+  // Moderation, by player identity
+  hostIdentity: string | null; // null for rooms saved before roles existed, until someone joins
+  operators: string[];
+  banned: { identity: string; name: string }[];
+  muted: string[];
+  buildDenied: string[];
+}
+
+/** Metadata for a room with default options, for rooms saved without (all of) it. */
+export function defaultRoomMeta(code: string, now: number = Date.now()): RoomMeta {
+  return {
+    code,
+    createdAt: now,
+    createdBy: 'unknown',
+    lastSavedAt: now,
+    name: `Room ${code}`,
+    visibility: 'private', // these rooms were only ever reachable by code; don't list them
+    maxPlayers: DEFAULT_MAX_PLAYERS,
+    rules: { ...DEFAULT_GAME_RULES },
+    password: null,
+    hostIdentity: null,
+    operators: [],
+    banned: [],
+    muted: [],
+    buildDenied: [],
+  };
+}
+
 function writeInt32(buf: Buffer, offset: number, value: number): void {
   buf.writeInt32LE(value, offset);
 }
@@ -19,79 +133,237 @@ function readInt32(buf: Buffer, offset: number): number {
   return buf.readInt32LE(offset);
 }
 
-export function saveWorld(worldsDir: string, roomCode: string, seed: number, modifiedChunks: Map<string, Uint8Array>): void {
-  const dir = join(worldsDir, roomCode);
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
+/** Write to a temp file and rename over the target, so a crash never leaves a half-written file. */
+export function writeFileAtomic(filePath: string, data: Buffer | string): void {
+  const tmpPath = `${filePath}.tmp`;
+  writeFileSync(tmpPath, data);
+  renameSync(tmpPath, filePath);
+}
+
+function regionCoord(c: number): number {
+  return Math.floor(c / REGION_SIZE);
+}
+
+function regionFileName(rx: number, rz: number): string {
+  return `r.${rx}.${rz}.bin`;
+}
+
+function regionIndex(cx: number, cy: number, cz: number): number {
+  const lx = ((cx % REGION_SIZE) + REGION_SIZE) % REGION_SIZE;
+  const lz = ((cz % REGION_SIZE) + REGION_SIZE) % REGION_SIZE;
+  return lx + lz * REGION_SIZE + cy * REGION_SIZE * REGION_SIZE;
+}
+
+/** Read a region file into compressed payloads keyed by region index (payloads are not decoded). */
+function readRegion(filePath: string): Map<number, Buffer> {
+  const payloads = new Map<number, Buffer>();
+  if (!existsSync(filePath)) return payloads;
+
+  const buf = readFileSync(filePath);
+  const version = readInt32(buf, 0);
+  if (version !== REGION_FORMAT_VERSION) {
+    throw new Error(`Unknown region format version ${version} in ${filePath}`);
+  }
+
+  for (let i = 0; i < REGION_CHUNKS; i++) {
+    const entry = REGION_TABLE_OFFSET + i * 8;
+    const offset = buf.readUInt32LE(entry);
+    const length = buf.readUInt32LE(entry + 4);
+    if (offset === 0) continue;
+    payloads.set(i, buf.subarray(offset, offset + length));
   }
+  return payloads;
+}
+
+function writeRegion(filePath: string, payloads: Map<number, Uint8Array>): void {
+  let totalSize = REGION_HEADER_SIZE;
+  for (const payload of payloads.values()) totalSize += payload.length;
 
-  const chunkCount = modifiedChunks.size;
-  const totalSize = HEADER_SIZE + chunkCount * (CHUNK_KEY_SIZE + BLOCKS_PER_CHUNK);
   const buf = Buffer.alloc(totalSize);
+  writeInt32(buf, 0, REGION_FORMAT_VERSION);
 
-  let offset = 0;
-
-  // Header
-  writeInt32(buf, offset, SAVE_VERSION); offset += 4;
-  writeInt32(buf, offset, seed); offset += 4;
-  writeInt32(buf, offset, chunkCount); offset += 4;
-
-  // Chunks
-  for (const [key, data] of modifiedChunks) {
-    const [cx, cy, cz] = key.split(',').map(Number);
-    writeInt32(buf, offset, cx); offset += 4;
-    writeInt32(buf, offset, cy); offset += 4;
-    writeInt32(buf, offset, cz); offset += 4;
-    data.forEach((byte, i) => {
-      buf[offset + i] = byte;
-    });
-    offset += BLOCKS_PER_CHUNK;
+  let offset = REGION_HEADER_SIZE;
+  for (const [index, payload] of payloads) {
+    const entry = REGION_TABLE_OFFSET + index * 8;
+    buf.writeUInt32LE(offset, entry);
+    buf.writeUInt32LE(payload.length, entry + 4);
+    buf.set(payload, offset);
+    offset += payload.length;
   }
 
-  const filePath = join(dir, 'world.bin');
-  writeFileSync(filePath, buf);
-  console.log(`World saved: ${filePath} (${chunkCount} chunks, ${(totalSize / 1024).toFixed(1)}KB)`);
+  writeFileAtomic(filePath, buf);
 }
 
-export function loadWorld(worldsDir: string, roomCode: string): SaveData | null {
-  const filePath = join(worldsDir, roomCode, 'world.bin');
-  if (!existsSync(filePath)) {
-    return null;
+export function getWorldDir(worldsDir: string, roomCode: string): string {
+  return join(worldsDir, roomCode);
+}
+
+/** Read the version from world.bin, or null if there is no save in this directory. */
+export function readSaveVersion(worldDir: string): number | null {
+  const filePath = join(worldDir, 'world.bin');
+  if (!existsSync(filePath)) return null;
+  return readInt32(readFileSync(filePath), 0);
+}
+
+export function writeWorldHeader(worldDir: string, seed: number, meta: LevelMeta): void {
+  const json = Buffer.from(JSON.stringify(meta), 'utf8');
+  const buf = Buffer.alloc(HEADER_SIZE + json.length);
+  writeInt32(buf, 0, SAVE_VERSION);
+  writeInt32(buf, 4, seed);
+  writeInt32(buf, 8, json.length);
+  buf.set(json, HEADER_SIZE);
+  writeFileAtomic(join(worldDir, 'world.bin'), buf);
+}
+
+export function readWorldHeader(worldDir: string): { seed: number; meta: LevelMeta } {
+  const filePath = join(worldDir, 'world.bin');
+  const buf = readFileSync(filePath);
+  const version = readInt32(buf, 0);
+  if (version !== SAVE_VERSION) {
+    throw new Error(`Save version ${version} in ${filePath} does not match ${SAVE_VERSION}`);
   }
+  const seed = readInt32(buf, 4);
+  const metaLength = readInt32(buf, 8);
+  const meta = JSON.parse(buf.subarray(HEADER_SIZE, HEADER_SIZE + metaLength).toString('utf8')) as LevelMeta;
+  return { seed, meta };
+}
 
-  try {
-    const buf = readFileSync(filePath);
+/**
+ * Write every region containing one of the given chunks.
+ * Untouched chunks in a rewritten region are copied over still compressed.
+ * Returns the number of regions written and their payload size in bytes.
+ */
+export function writeRegionChunks(
+  worldDir: string,
+  chunks: Map<string, Uint8Array>,
+  keys: Iterable<string>,
+): { regions: number; bytes: number } {
+  const regionDir = join(worldDir, 'region');
+  if (!existsSync(regionDir)) {
+    mkdirSync(regionDir, { recursive: true });
+  }
 
-    let offset = 0;
-    const version = readInt32(buf, offset); offset += 4;
-    if (version !== SAVE_VERSION) {
-      console.warn(`Unknown save version ${version}, skipping load`);
-      return null;
+  // Group chunks by region
+  const keysByRegion = new Map<string, string[]>();
+  for (const key of keys) {
+    const [cx, , cz] = key.split(',').map(Number);
+    const fileName = regionFileName(regionCoord(cx), regionCoord(cz));
+    let regionKeys = keysByRegion.get(fileName);
+    if (!regionKeys) {
+      regionKeys = [];
+      keysByRegion.set(fileName, regionKeys);
     }
+    regionKeys.push(key);
+  }
 
-    const seed = readInt32(buf, offset); offset += 4;
-    const chunkCount = readInt32(buf, offset); offset += 4;
+  let bytes = 0;
+  for (const [fileName, regionKeys] of keysByRegion) {
+    const filePath = join(regionDir, fileName);
+    const payloads: Map<number, Uint8Array> = readRegion(filePath);
+    for (const key of regionKeys) {
+      const data = chunks.get(key);
+      if (!data) continue;
+      const [cx, cy, cz] = key.split(',').map(Number);
+      payloads.set(regionIndex(cx, cy, cz), encodeChunkData(data));
+    }
+    writeRegion(filePath, payloads);
+    for (const payload of payloads.values()) bytes += payload.length;
+  }
 
-    const modifiedChunks = new Map<string, Uint8Array>();
+  return { regions: keysByRegion.size, bytes };
+}
 
-    for (let i = 0; i < chunkCount; i++) {
-      const cx = readInt32(buf, offset); offset += 4;
-      const cy = readInt32(buf, offset); offset += 4;
-      const cz = readInt32(buf, offset); offset += 4;
+/** Decode every chunk stored in the region files of a world. */
+export function readRegionChunks(worldDir: string): Map<string, Uint8Array> {
+  const chunks = new Map<string, Uint8Array>();
+  const regionDir = join(worldDir, 'region');
+  const regionFiles = existsSync(regionDir) ? readdirSync(regionDir) : [];
 
-      const data = new Uint8Array(BLOCKS_PER_CHUNK);
-      for (let j = 0; j < BLOCKS_PER_CHUNK; j++) {
-        data[j] = buf[offset + j];
-      }
-      offset += BLOCKS_PER_CHUNK;
+  for (const fileName of regionFiles) {
+    const match = REGION_FILE_PATTERN.exec(fileName);
+    if (!match) continue;
+    const rx = Number(match[1]);
+    const rz = Number(match[2]);
 
-      modifiedChunks.set(`${cx},${cy},${cz}`, data);
+    for (const [index, payload] of readRegion(join(regionDir, fileName))) {
+      const cx = rx * REGION_SIZE + (index % REGION_SIZE);
+      const cz = rz * REGION_SIZE + (Math.floor(index / REGION_SIZE) % REGION_SIZE);
+      const cy = Math.floor(index / (REGION_SIZE * REGION_SIZE));
+      chunks.set(chunkKey(cx, cy, cz), decodeChunkData(payload));
     }
+  }
+  return chunks;
+}
+
+/** Write the world header and every region containing a dirty chunk. */
+export function saveWorld(
+  worldsDir: string,
+  roomCode: string,
+  data: SaveData,
+  dirtyChunks: Set<string>,
+): void {
+  const dir = getWorldDir(worldsDir, roomCode);
+  const { regions, bytes } = writeRegionChunks(dir, data.modifiedChunks, dirtyChunks);
+  writeWorldHeader(dir, data.seed, data.meta);
 
-    console.log(`World loaded: ${filePath} (${chunkCount} chunks)`);
-    return { seed, modifiedChunks };
+  console.log(`World saved: ${dir} (${dirtyChunks.size} dirty chunks in ${regions} regions, ${(bytes / 1024).toFixed(1)}KB)`);
+}
+
+/** Load a save in the current format; callers run SaveMigrations.upgradeWorld first. */
+export function loadWorld(worldsDir: string, roomCode: string): SaveData | null {
+  const dir = getWorldDir(worldsDir, roomCode);
+  if (!existsSync(join(dir, 'world.bin'))) {
+    return null;
+  }
+
+  try {
+    const { seed, meta } = readWorldHeader(dir);
+    const modifiedChunks = readRegionChunks(dir);
+    console.log(`World loaded: ${dir} (${modifiedChunks.size} chunks)`);
+    return { seed, meta, modifiedChunks };
+  } catch (err) {
+    console.error(`Failed to load world from ${dir}:`, err);
+    return null;
+  }
+}
+
+export function worldExists(worldsDir: string, roomCode: string): boolean {
+  return existsSync(join(worldsDir, roomCode, 'world.bin'));
+}
+
+export function saveRoomMeta(worldsDir: string, meta: RoomMeta): void {
+  const dir = join(worldsDir, meta.code);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileAtomic(join(dir, 'room.json'), JSON.stringify(meta, null, 2));
+}
+
+/** Metadata of every saved room, read once at startup for the public room list. */
+export function listRoomMetas(worldsDir: string): RoomMeta[] {
+  if (!existsSync(worldsDir)) return [];
+  const metas: RoomMeta[] = [];
+  for (const entry of readdirSync(worldsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const meta = loadRoomMeta(worldsDir, entry.name);
+    if (meta) metas.push(meta);
+  }
+  return metas;
+}
+
+export function loadRoomMeta(worldsDir: string, roomCode: string): RoomMeta | null {
+  const filePath = join(worldsDir, roomCode, 'room.json');
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const meta = JSON.parse(readFileSync(filePath, 'utf8')) as Partial<RoomMeta>;
+    // Rooms saved before room options and roles existed get the defaults
+    const defaults = defaultRoomMeta(roomCode);
+    return { ...defaults, ...meta, rules: { ...defaults.rules, ...meta.rules } };
   } catch (err) {
-    console.error(`Failed to load world from ${filePath}:`, err);
+    console.error(`Failed to load room metadata from ${filePath}:`, err);
     return null;
   }
 }
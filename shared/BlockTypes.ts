@@ -44,3 +44,21 @@ export const BLOCK_PROPERTIES: Record<BlockType, BlockProperties> = {
   [BlockType.Gold]: { name: 'Gold', color: [0.9, 0.8, 0.2], transparent: false, solid: true },
   [BlockType.Flower]: { name: 'Flower', color: [0.9, 0.2, 0.3], transparent: true, solid: false },
 };
+
+/** Whether a placed block may take this block's place (air, water, flowers). */
+export function isReplaceable(type: BlockType): boolean {
+  return !BLOCK_PROPERTIES[type].solid;
+}
+
+/** Blocks available in the player's hotbar, in slot order. */
+export const HOTBAR_BLOCKS: BlockType[] = [
+  BlockType.Grass,
+  BlockType.Dirt,
+  BlockType.Stone,
+  BlockType.Sand,
+  BlockType.Wood,
+  BlockType.Cobblestone,
+  BlockType.Planks,
+  BlockType.Glass,
+  BlockType.Brick,
+];
@@ -0,0 +1,420 @@
+import { BlockType, BLOCK_PROPERTIES, HOTBAR_BLOCKS } from './BlockTypes.js';
+import { WORLD_HEIGHT } from './ChunkConstants.js';
+import { CLAIM_FLAG_NAMES, MAX_CLAIM_SIZE, boxFromCorners, formatBox } from './Claims.js';
+import {
+  CommandError,
+  CommandRegistry,
+  defineCommand,
+  formatUsage,
+  type CommandDefinition,
+  type CommandEdit,
+} from './Commands.js';
+import type { ModerationAction, PlayerRole } from './Protocol.js';
+
+const TIME_KEYWORDS = {
+  midnight: 0,
+  sunrise: 0.25,
+  day: 0.3,
+  noon: 0.5,
+  sunset: 0.75,
+  night: 0.85,
+};
+
+// Teleports further out than this are probably typos
+const MAX_TELEPORT_DISTANCE = 100_000;
+
+function checkTeleportTarget(x: number, y: number, z: number): void {
+  if (y < 0 || y > WORLD_HEIGHT + 64) throw new CommandError(`y must be between 0 and ${WORLD_HEIGHT + 64}`);
+  if (Math.abs(x) > MAX_TELEPORT_DISTANCE || Math.abs(z) > MAX_TELEPORT_DISTANCE) {
+    throw new CommandError(`x and z must be within ${MAX_TELEPORT_DISTANCE} blocks of the origin`);
+  }
+}
+
+const HISTORY_LIMIT = 10;
+
+function formatAgo(time: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - time) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+function describeEdit(edit: CommandEdit, withPosition: boolean): string {
+  const block = (type: BlockType) => BLOCK_PROPERTIES[type]?.name ?? `block ${type}`;
+  const what = edit.to === BlockType.Air
+    ? `broke ${block(edit.from)}`
+    : edit.from === BlockType.Air
+      ? `placed ${block(edit.to)}`
+      : `replaced ${block(edit.from)} with ${block(edit.to)}`;
+  const actor = edit.rollback ? `${edit.actorName} (rollback)` : edit.actorName;
+  const where = withPosition ? ` at ${edit.x} ${edit.y} ${edit.z}` : '';
+  return `${formatAgo(edit.time)}: ${actor} ${what}${where}`;
+}
+
+function sinceMinutes(minutes: number | undefined): number | undefined {
+  if (minutes === undefined) return undefined;
+  if (minutes <= 0) throw new CommandError('minutes must be more than 0');
+  return Date.now() - minutes * 60_000;
+}
+
+function moderationCommand(name: string, action: ModerationAction, role: PlayerRole, description: string): CommandDefinition {
+  return defineCommand({
+    name,
+    description,
+    role,
+    args: [{ name: 'player', type: 'word', suggestPlayers: true }],
+    run: (ctx, { player }) => ctx.moderate(action, player),
+  });
+}
+
+/** A registry with every built-in command; solo games and rooms share it. */
+export function createCommandRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+
+  registry.register(
+    defineCommand({
+      name: 'help',
+      description: 'List the commands you can use',
+      role: 'member',
+      args: [],
+      run: (ctx) => {
+        for (const command of registry.available(ctx.sender.role)) {
+          ctx.reply(`${formatUsage(command)} - ${command.description}`);
+        }
+      },
+    }),
+
+    defineCommand({
+      name: 'tp',
+      description: 'Teleport yourself to a position',
+      role: 'operator',
+      args: [
+        { name: 'x', type: 'number' },
+        { name: 'y', type: 'number' },
+        { name: 'z', type: 'number' },
+      ],
+      run: (ctx, { x, y, z }) => {
+        checkTeleportTarget(x, y, z);
+        ctx.teleport(ctx.sender, x, y, z);
+        ctx.reply(`Teleported to ${x} ${y} ${z}`);
+      },
+    }),
+    defineCommand({
+      name: 'tp',
+      description: 'Teleport yourself to a player',
+      role: 'operator',
+      args: [{ name: 'player', type: 'player' }],
+      run: (ctx, { player }) => {
+        ctx.teleport(ctx.sender, player.x, player.y, player.z);
+        ctx.reply(`Teleported to ${player.name}`);
+      },
+    }),
+    defineCommand({
+      name: 'tp',
+      description: 'Teleport a player to another player',
+      role: 'operator',
+      args: [
+        { name: 'player', type: 'player' },
+        { name: 'destination', type: 'player' },
+      ],
+      run: (ctx, { player, destination }) => {
+        ctx.teleport(player, destination.x, destination.y, destination.z);
+        ctx.reply(`Teleported ${player.name} to ${destination.name}`);
+      },
+    }),
+
+    defineCommand({
+      name: 'time set',
+      description: 'Set the time of day (0-1 or noon, midnight...)',
+      role: 'operator',
+      args: [{ name: 'time', type: 'number', keywords: TIME_KEYWORDS }],
+      run: (ctx, { time }) => {
+        if (time < 0 || time > 1) throw new CommandError('time must be between 0 and 1');
+        ctx.setDayTime(time);
+        ctx.reply(`Time set to ${time.toFixed(2)}`);
+      },
+    }),
+
+    defineCommand({
+      name: 'seed',
+      description: "Show the world's seed",
+      role: 'member',
+      args: [],
+      run: (ctx) => ctx.reply(`Seed: ${ctx.getSeed()}`),
+    }),
+
+    defineCommand({
+      name: 'give',
+      description: 'Put a block in your hand',
+      role: 'operator',
+      args: [{ name: 'block', type: 'block' }],
+      run: (ctx, { block }) => {
+        if (!HOTBAR_BLOCKS.includes(block)) throw new CommandError(`${BLOCK_PROPERTIES[block].name} can't be placed`);
+        ctx.give(ctx.sender, block);
+      },
+    }),
+    defineCommand({
+      name: 'give',
+      description: "Put a block in a player's hand",
+      role: 'operator',
+      args: [
+        { name: 'player', type: 'player' },
+        { name: 'block', type: 'block' },
+      ],
+      run: (ctx, { player, block }) => {
+        if (!HOTBAR_BLOCKS.includes(block)) throw new CommandError(`${BLOCK_PROPERTIES[block].name} can't be placed`);
+        ctx.give(player, block);
+        ctx.reply(`Gave ${BLOCK_PROPERTIES[block].name} to ${player.name}`);
+      },
+    }),
+
+    defineCommand({
+      name: 'list',
+      description: 'List the players here',
+      role: 'member',
+      args: [],
+      run: (ctx) => {
+        const players = ctx.getPlayers();
+        const names = players.map(p => (p.role === 'member' ? p.name : `${p.name} (${p.role})`));
+        ctx.reply(`Players (${players.length}): ${names.join(', ')}`);
+      },
+    }),
+
+    defineCommand({
+      name: 'msg',
+      description: 'Send a private message',
+      role: 'member',
+      args: [
+        { name: 'player', type: 'player' },
+        { name: 'message', type: 'text' },
+      ],
+      run: (ctx, { player, message }) => {
+        if (player.id === ctx.sender.id) throw new CommandError("You can't message yourself");
+        ctx.whisper(player, message);
+        ctx.reply(`To ${player.name}: ${message}`);
+      },
+    }),
+
+    defineCommand({
+      name: 'npc spawn',
+      description: 'Spawn an NPC where you stand',
+      role: 'operator',
+      args: [{ name: 'name', type: 'word', optional: true }],
+      run: (ctx, { name }) => {
+        const { x, y, z } = ctx.sender;
+        ctx.reply(`Spawned ${ctx.spawnNpc(x, y, z, name)}`);
+      },
+    }),
+
+    defineCommand({
+      name: 'save',
+      description: 'Save the world now',
+      role: 'operator',
+      args: [],
+      run: (ctx) => {
+        ctx.save();
+        ctx.reply('World saved');
+      },
+    }),
+
+    defineCommand({
+      name: 'tps',
+      description: 'Show how well the room keeps up with its tick rate',
+      role: 'member',
+      args: [],
+      run: (ctx) => {
+        const { tickRate, averageMs, maxMs, overruns, skipped } = ctx.getTickStats();
+        ctx.reply(
+          `${tickRate} ticks/s: ${averageMs.toFixed(2)}ms average, ${maxMs.toFixed(2)}ms max per tick over the last 5s ` +
+          `(${overruns} over budget); ${skipped} ticks skipped since the room opened`,
+        );
+      },
+    }),
+
+    defineCommand({
+      name: 'claim create',
+      description: 'Protect the box between two corners',
+      role: 'member',
+      args: [
+        { name: 'name', type: 'word' },
+        { name: 'x1', type: 'integer' },
+        { name: 'y1', type: 'integer' },
+        { name: 'z1', type: 'integer' },
+        { name: 'x2', type: 'integer' },
+        { name: 'y2', type: 'integer' },
+        { name: 'z2', type: 'integer' },
+      ],
+      run: (ctx, { name, x1, y1, z1, x2, y2, z2 }) => {
+        const box = boxFromCorners(x1, y1, z1, x2, y2, z2);
+        ctx.createClaim(name, box);
+        ctx.reply(`Claimed "${name}" from ${formatBox(box)}`);
+      },
+    }),
+    defineCommand({
+      name: 'claim create',
+      description: 'Protect a square around you, from bedrock to sky',
+      role: 'member',
+      args: [
+        { name: 'name', type: 'word' },
+        { name: 'radius', type: 'integer' },
+      ],
+      run: (ctx, { name, radius }) => {
+        const maxRadius = Math.floor((MAX_CLAIM_SIZE - 1) / 2);
+        if (radius < 1 || radius > maxRadius) throw new CommandError(`radius must be between 1 and ${maxRadius}`);
+        const x = Math.floor(ctx.sender.x);
+        const z = Math.floor(ctx.sender.z);
+        const box = boxFromCorners(x - radius, 0, z - radius, x + radius, WORLD_HEIGHT - 1, z + radius);
+        ctx.createClaim(name, box);
+        ctx.reply(`Claimed "${name}" from ${formatBox(box)}`);
+      },
+    }),
+    defineCommand({
+      name: 'claim remove',
+      description: 'Delete a claim',
+      role: 'member',
+      args: [{ name: 'claim', type: 'word', suggestClaims: true }],
+      run: (ctx, { claim }) => {
+        ctx.removeClaim(claim);
+        ctx.reply(`Removed claim "${claim}"`);
+      },
+    }),
+    defineCommand({
+      name: 'claim trust',
+      description: 'Let a player build in a claim',
+      role: 'member',
+      args: [
+        { name: 'claim', type: 'word', suggestClaims: true },
+        { name: 'player', type: 'word', suggestPlayers: true },
+      ],
+      run: (ctx, { claim, player }) => {
+        ctx.setClaimMember(claim, player, true);
+        ctx.reply(`${player} can now build in "${claim}"`);
+      },
+    }),
+    defineCommand({
+      name: 'claim untrust',
+      description: 'Stop a player building in a claim',
+      role: 'member',
+      args: [
+        { name: 'claim', type: 'word', suggestClaims: true },
+        { name: 'player', type: 'word', suggestPlayers: true },
+      ],
+      run: (ctx, { claim, player }) => {
+        ctx.setClaimMember(claim, player, false);
+        ctx.reply(`${player} can no longer build in "${claim}"`);
+      },
+    }),
+    defineCommand({
+      name: 'claim flag',
+      description: "Turn one of a claim's protections on or off",
+      role: 'member',
+      args: [
+        { name: 'claim', type: 'word', suggestClaims: true },
+        { name: 'flag', type: 'word', choices: Object.keys(CLAIM_FLAG_NAMES) },
+        { name: 'state', type: 'word', choices: ['on', 'off'] },
+      ],
+      run: (ctx, { claim, flag, state }) => {
+        ctx.setClaimFlag(claim, CLAIM_FLAG_NAMES[flag], state === 'on');
+        ctx.reply(`${flag} is now ${state} in "${claim}"`);
+      },
+    }),
+    defineCommand({
+      name: 'claim list',
+      description: 'List the claims in this world',
+      role: 'member',
+      args: [],
+      run: (ctx) => {
+        const claims = ctx.getClaims();
+        if (claims.length === 0) {
+          ctx.reply('No claims in this world');
+          return;
+        }
+        for (const claim of claims) {
+          const flags = Object.keys(CLAIM_FLAG_NAMES).filter(flag => claim.flags[CLAIM_FLAG_NAMES[flag]]);
+          const members = claim.memberNames.length > 0 ? `, trusts ${claim.memberNames.join(', ')}` : '';
+          ctx.reply(`"${claim.name}" by ${claim.ownerName}: ${formatBox(claim)} [${flags.join(' ') || 'open'}]${members}`);
+        }
+      },
+    }),
+
+    defineCommand({
+      name: 'history',
+      description: 'Show who changed a block',
+      role: 'operator',
+      args: [
+        { name: 'x', type: 'integer' },
+        { name: 'y', type: 'integer' },
+        { name: 'z', type: 'integer' },
+      ],
+      run: (ctx, { x, y, z }) => {
+        const box = { minX: x, minY: y, minZ: z, maxX: x, maxY: y, maxZ: z };
+        const edits = ctx.getEdits({ box }, HISTORY_LIMIT);
+        if (edits.length === 0) {
+          ctx.reply(`No edits recorded at ${x} ${y} ${z}`);
+          return;
+        }
+        for (const edit of edits) ctx.reply(describeEdit(edit, false));
+      },
+    }),
+    defineCommand({
+      name: 'history player',
+      description: 'Show the latest edits by a player or NPC',
+      role: 'operator',
+      args: [{ name: 'name', type: 'word', suggestPlayers: true }],
+      run: (ctx, { name }) => {
+        const edits = ctx.getEdits({ actorName: name }, HISTORY_LIMIT);
+        if (edits.length === 0) {
+          ctx.reply(`No edits recorded by ${name}`);
+          return;
+        }
+        for (const edit of edits) ctx.reply(describeEdit(edit, true));
+      },
+    }),
+
+    defineCommand({
+      name: 'rollback player',
+      description: 'Undo the edits of a player or NPC, optionally only the last few minutes',
+      role: 'operator',
+      args: [
+        { name: 'name', type: 'word', suggestPlayers: true },
+        { name: 'minutes', type: 'number', optional: true },
+      ],
+      run: (ctx, { name, minutes }) => {
+        const restored = ctx.rollback({ actorName: name, since: sinceMinutes(minutes) });
+        ctx.reply(`Rolled back ${restored} blocks edited by ${name}`);
+      },
+    }),
+    defineCommand({
+      name: 'rollback area',
+      description: 'Undo the edits in a box, optionally only the last few minutes',
+      role: 'operator',
+      args: [
+        { name: 'x1', type: 'integer' },
+        { name: 'y1', type: 'integer' },
+        { name: 'z1', type: 'integer' },
+        { name: 'x2', type: 'integer' },
+        { name: 'y2', type: 'integer' },
+        { name: 'z2', type: 'integer' },
+        { name: 'minutes', type: 'number', optional: true },
+      ],
+      run: (ctx, { x1, y1, z1, x2, y2, z2, minutes }) => {
+        const box = boxFromCorners(x1, y1, z1, x2, y2, z2);
+        const restored = ctx.rollback({ box, since: sinceMinutes(minutes) });
+        ctx.reply(`Rolled back ${restored} blocks from ${formatBox(box)}`);
+      },
+    }),
+
+    moderationCommand('kick', 'kick', 'operator', 'Remove a player from the room'),
+    moderationCommand('ban', 'ban', 'operator', 'Kick a player and keep them out'),
+    moderationCommand('unban', 'unban', 'operator', 'Let a banned player back in'),
+    moderationCommand('mute', 'mute', 'operator', 'Stop a player from chatting'),
+    moderationCommand('unmute', 'unmute', 'operator', 'Let a muted player chat again'),
+    moderationCommand('denybuild', 'denyBuild', 'operator', 'Stop a player from editing blocks'),
+    moderationCommand('allowbuild', 'allowBuild', 'operator', 'Let a player edit blocks again'),
+    moderationCommand('op', 'op', 'host', 'Make a player an operator'),
+    moderationCommand('deop', 'deop', 'host', 'Remove an operator'),
+  );
+
+  return registry;
+}
@@ -0,0 +1,162 @@
+import { BLOCKS_PER_CHUNK } from './ChunkConstants.js';
+import { BinaryMessageType } from './Protocol.js';
+
+// Chunk payloads travel as binary WebSocket frames instead of JSON number arrays.
+//
+// Frame layout:
+//   u8  binary message type (BinaryMessageType.ChunkData)
+//   u8  format version
+//   i32 cx, i32 cy, i32 cz (little-endian)
+//   ... compressed chunk payload (see encodeChunkData)
+//
+// Payload layout:
+//   u8  encoding
+//   Uniform: u8 block type                      (all-air / all-stone chunks: 2 bytes)
+//   Rle:     repeated [varint run length, u8 block type]
+//   Raw:     BLOCKS_PER_CHUNK block types       (for clients that didn't agree to chunkCompression)
+
+export const CHUNK_FORMAT_VERSION = 1;
+export const CHUNK_FRAME_HEADER_SIZE = 14;
+
+export enum ChunkEncoding {
+  Uniform = 0,
+  Rle = 1,
+  Raw = 2,
+}
+
+export interface DecodedChunkFrame {
+  cx: number;
+  cy: number;
+  cz: number;
+  data: Uint8Array;
+}
+
+function writeVarint(out: number[], value: number): void {
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  out.push(value);
+}
+
+/** Compress raw chunk data (BLOCKS_PER_CHUNK bytes) with run-length encoding. */
+export function encodeChunkData(data: Uint8Array): Uint8Array {
+  const first = data[0];
+  let uniform = true;
+  for (let i = 1; i < data.length; i++) {
+    if (data[i] !== first) {
+      uniform = false;
+      break;
+    }
+  }
+  if (uniform) {
+    return Uint8Array.of(ChunkEncoding.Uniform, first);
+  }
+
+  const out: number[] = [ChunkEncoding.Rle];
+  let runType = data[0];
+  let runLength = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === runType) {
+      runLength++;
+      continue;
+    }
+    writeVarint(out, runLength);
+    out.push(runType);
+    runType = data[i];
+    runLength = 1;
+  }
+  writeVarint(out, runLength);
+  out.push(runType);
+
+  return Uint8Array.from(out);
+}
+
+/** Expand a payload produced by encodeChunkData. Throws on malformed input. */
+export function decodeChunkData(payload: Uint8Array): Uint8Array {
+  const data = new Uint8Array(BLOCKS_PER_CHUNK);
+  const encoding = payload[0];
+
+  if (encoding === ChunkEncoding.Uniform) {
+    if (payload.length < 2) throw new Error('Truncated uniform chunk payload');
+    data.fill(payload[1]);
+    return data;
+  }
+
+  if (encoding === ChunkEncoding.Raw) {
+    if (payload.length !== 1 + BLOCKS_PER_CHUNK) throw new Error('Raw chunk payload has the wrong size');
+    data.set(payload.subarray(1));
+    return data;
+  }
+
+  if (encoding !== ChunkEncoding.Rle) {
+    throw new Error(`Unknown chunk encoding ${encoding}`);
+  }
+
+  let offset = 1;
+  let written = 0;
+  while (offset < payload.length) {
+    let runLength = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (offset >= payload.length) throw new Error('Truncated chunk run length');
+      byte = payload[offset++];
+      runLength |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+
+    if (offset >= payload.length) throw new Error('Truncated chunk run');
+    const type = payload[offset++];
+    if (written + runLength > BLOCKS_PER_CHUNK) throw new Error('Chunk runs overflow chunk size');
+    data.fill(type, written, written + runLength);
+    written += runLength;
+  }
+
+  if (written !== BLOCKS_PER_CHUNK) {
+    throw new Error(`Chunk runs cover ${written} of ${BLOCKS_PER_CHUNK} blocks`);
+  }
+  return data;
+}
+
+/** Raw chunk data as an uncompressed payload. */
+function rawChunkData(data: Uint8Array): Uint8Array {
+  const payload = new Uint8Array(1 + data.length);
+  payload[0] = ChunkEncoding.Raw;
+  payload.set(data, 1);
+  return payload;
+}
+
+export function encodeChunkFrame(cx: number, cy: number, cz: number, data: Uint8Array, compressed = true): Uint8Array {
+  const payload = compressed ? encodeChunkData(data) : rawChunkData(data);
+  const frame = new Uint8Array(CHUNK_FRAME_HEADER_SIZE + payload.length);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, BinaryMessageType.ChunkData);
+  view.setUint8(1, CHUNK_FORMAT_VERSION);
+  view.setInt32(2, cx, true);
+  view.setInt32(6, cy, true);
+  view.setInt32(10, cz, true);
+  frame.set(payload, CHUNK_FRAME_HEADER_SIZE);
+  return frame;
+}
+
+export function decodeChunkFrame(frame: Uint8Array): DecodedChunkFrame {
+  if (frame.length < CHUNK_FRAME_HEADER_SIZE + 2) {
+    throw new Error('Chunk frame too short');
+  }
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  if (view.getUint8(0) !== BinaryMessageType.ChunkData) {
+    throw new Error('Not a chunk frame');
+  }
+  const version = view.getUint8(1);
+  if (version !== CHUNK_FORMAT_VERSION) {
+    throw new Error(`Unsupported chunk format version ${version}`);
+  }
+
+  return {
+    cx: view.getInt32(2, true),
+    cy: view.getInt32(6, true),
+    cz: view.getInt32(10, true),
+    data: decodeChunkData(frame.subarray(CHUNK_FRAME_HEADER_SIZE)),
+  };
+}
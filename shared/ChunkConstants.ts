@@ -2,13 +2,22 @@ export const CHUNK_SIZE = 32;
 export const CHUNK_HEIGHT = 32; // same as CHUNK_SIZE for cubic chunks
 export const WORLD_HEIGHT = 256;
 export const VERTICAL_CHUNKS = WORLD_HEIGHT / CHUNK_HEIGHT; // 8
-export const RENDER_DISTANCE = 8; // chunks
+export const RENDER_DISTANCE = 4; // chunk columns clients keep loaded around the player
 export const BLOCKS_PER_CHUNK = CHUNK_SIZE * CHUNK_SIZE * CHUNK_HEIGHT; // 32768
 
 export function blockIndex(x: number, y: number, z: number): number {
   return x + z * CHUNK_SIZE + y * CHUNK_SIZE * CHUNK_SIZE;
 }
 
+/** Inverse of blockIndex. */
+export function indexToLocal(index: number): { lx: number; ly: number; lz: number } {
+  return {
+    lx: index % CHUNK_SIZE,
+    lz: Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE,
+    ly: Math.floor(index / (CHUNK_SIZE * CHUNK_SIZE)),
+  };
+}
+
 export function worldToChunk(wx: number, wy: number, wz: number): { cx: number; cy: number; cz: number; lx: number; ly: number; lz: number } {
   const cx = Math.floor(wx / CHUNK_SIZE);
   const cy = Math.floor(wy / CHUNK_HEIGHT);
@@ -0,0 +1,46 @@
+import type { BlockBox, ClaimFlags } from './Protocol.js';
+
+export const MAX_CLAIM_SIZE = 64; // blocks along x and z; claims may span the full height
+export const MAX_CLAIMS_PER_PLAYER = 4;
+export const CLAIM_NAME_MAX_LENGTH = 24;
+
+export const DEFAULT_CLAIM_FLAGS: ClaimFlags = {
+  noBuild: true,
+  noBreak: true,
+  noNpcGather: true,
+  noNpcBuild: true,
+};
+
+/** Flag names as typed in chat commands. */
+export const CLAIM_FLAG_NAMES: Record<string, keyof ClaimFlags> = {
+  nobuild: 'noBuild',
+  nobreak: 'noBreak',
+  nonpcgather: 'noNpcGather',
+  nonpcbuild: 'noNpcBuild',
+};
+
+/** The box between two corners, in any order. */
+export function boxFromCorners(x1: number, y1: number, z1: number, x2: number, y2: number, z2: number): BlockBox {
+  return {
+    minX: Math.min(x1, x2),
+    minY: Math.min(y1, y2),
+    minZ: Math.min(z1, z2),
+    maxX: Math.max(x1, x2),
+    maxY: Math.max(y1, y2),
+    maxZ: Math.max(z1, z2),
+  };
+}
+
+export function boxContains(box: BlockBox, x: number, y: number, z: number): boolean {
+  return x >= box.minX && x <= box.maxX && y >= box.minY && y <= box.maxY && z >= box.minZ && z <= box.maxZ;
+}
+
+export function boxesOverlap(a: BlockBox, b: BlockBox): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX
+    && a.minY <= b.maxY && a.maxY >= b.minY
+    && a.minZ <= b.maxZ && a.maxZ >= b.minZ;
+}
+
+export function formatBox(box: BlockBox): string {
+  return `${box.minX} ${box.minY} ${box.minZ} to ${box.maxX} ${box.maxY} ${box.maxZ}`;
+}
@@ -0,0 +1,348 @@
+import { BlockType, BLOCK_PROPERTIES } from './BlockTypes.js';
+import { hasRole } from './Roles.js';
+import type { BlockBox, ClaimFlags, ClaimSummary, ModerationAction, PlayerRole } from './Protocol.js';
+
+// Chat commands: "/name arg arg...", where "double quotes" make one argument of several
+// words (e.g. a name with spaces). The registry parses and checks them; what they
+// do goes through a CommandContext, implemented by the server for rooms and by the
+// client for solo games, so both run the same commands.
+
+export type CommandArgType =
+  | 'number'
+  | 'integer'
+  | 'word' // a single token
+  | 'text' // the rest of the line, must come last
+  | 'player' // an online player, by name; may span several tokens unquoted
+  | 'block'; // a block, by name
+
+export interface CommandArgSpec {
+  readonly name: string;
+  readonly type: CommandArgType;
+  readonly optional?: boolean;
+  readonly keywords?: Readonly<Record<string, number>>; // named values for number arguments
+  readonly choices?: readonly string[]; // the only values a word argument accepts
+  readonly suggestPlayers?: boolean; // complete word arguments with player names
+  readonly suggestClaims?: boolean; // complete word arguments with claim names
+}
+
+export interface CommandPlayer {
+  id: string;
+  name: string;
+  role: PlayerRole;
+  x: number;
+  y: number;
+  z: number;
+}
+
+type ArgValue<T extends CommandArgType> =
+  T extends 'number' | 'integer' ? number :
+  T extends 'player' ? CommandPlayer :
+  T extends 'block' ? BlockType :
+  string;
+
+export type CommandArgs<A extends readonly CommandArgSpec[]> = {
+  [S in A[number] as S['name']]: S['optional'] extends true ? ArgValue<S['type']> | undefined : ArgValue<S['type']>;
+};
+
+/** A journaled block edit, as shown to command users. */
+export interface CommandEdit {
+  time: number;
+  actorName: string;
+  x: number;
+  y: number;
+  z: number;
+  from: BlockType;
+  to: BlockType;
+  rollback: boolean;
+}
+
+export interface CommandEditFilter {
+  actorName?: string; // a player or NPC
+  box?: BlockBox;
+  since?: number; // ms timestamp
+}
+
+/** How the room's tick loop kept up over its last few seconds. */
+export interface CommandTickStats {
+  tickRate: number; // target ticks per second
+  averageMs: number;
+  maxMs: number;
+  overruns: number; // ticks that took longer than their share of a second
+  skipped: number; // ticks dropped under overload since the room opened
+}
+
+/** What commands can see and do, wherever they run. Methods throw CommandError when unsupported. */
+export interface CommandContext {
+  readonly sender: CommandPlayer;
+  reply(message: string): void;
+  getPlayers(): CommandPlayer[]; // including the sender
+  getSeed(): number;
+  getDayTime(): number;
+  setDayTime(dayTime: number): void;
+  teleport(player: CommandPlayer, x: number, y: number, z: number): void;
+  give(player: CommandPlayer, block: BlockType): void;
+  whisper(player: CommandPlayer, message: string): void;
+  spawnNpc(x: number, y: number, z: number, name?: string): string; // returns the NPC's name
+  save(): void;
+  getTickStats(): CommandTickStats;
+  moderate(action: ModerationAction, playerName: string): void;
+  getClaims(): ClaimSummary[]; // as the sender sees them
+  createClaim(name: string, box: BlockBox): void;
+  removeClaim(name: string): void;
+  setClaimMember(claimName: string, playerName: string, member: boolean): void;
+  setClaimFlag(claimName: string, flag: keyof ClaimFlags, value: boolean): void;
+  getEdits(filter: CommandEditFilter, limit: number): CommandEdit[]; // newest first
+  rollback(filter: CommandEditFilter): number; // returns how many blocks were restored
+}
+
+export interface CommandDefinition {
+  readonly name: string; // may be several words, e.g. "time set"
+  readonly description: string;
+  readonly role: PlayerRole; // lowest role allowed to run it
+  readonly args: readonly CommandArgSpec[];
+  run(ctx: CommandContext, args: Record<string, unknown>): void;
+}
+
+/** A command failed in a way the sender should be told about. */
+export class CommandError extends Error {}
+
+export interface CommandHints {
+  hints: string[]; // whole input lines the current one can be completed to
+  usage: string | null;
+}
+
+/**
+ * Define a command with its run() arguments typed from its argument specs. The registry only
+ * calls run() with what parseArgs built from those same specs, which is what the narrowing relies on.
+ */
+export function defineCommand<const A extends readonly CommandArgSpec[]>(definition: {
+  name: string;
+  description: string;
+  role: PlayerRole;
+  args: A;
+  run(ctx: CommandContext, args: CommandArgs<A>): void;
+}): CommandDefinition {
+  const { run, ...rest } = definition;
+  return { ...rest, run: (ctx, args) => run(ctx, args as CommandArgs<A>) };
+}
+
+export function formatUsage(command: CommandDefinition): string {
+  const args = command.args.map(arg => (arg.optional ? `[${arg.name}]` : `<${arg.name}>`));
+  return ['/' + command.name, ...args].join(' ');
+}
+
+function blockNames(): string[] {
+  return Object.values(BLOCK_PROPERTIES)
+    .map(props => props.name.toLowerCase())
+    .filter(name => name !== 'air');
+}
+
+function parseBlock(token: string): BlockType | undefined {
+  const wanted = token.toLowerCase();
+  for (const [type, props] of Object.entries(BLOCK_PROPERTIES)) {
+    if (props.name.toLowerCase() === wanted && Number(type) !== BlockType.Air) return Number(type) as BlockType;
+  }
+  return undefined;
+}
+
+function parseArg(ctx: CommandContext, spec: CommandArgSpec, token: string): unknown {
+  switch (spec.type) {
+    case 'number':
+    case 'integer': {
+      const value = spec.keywords?.[token.toLowerCase()] ?? Number(token);
+      if (token === '' || !Number.isFinite(value)) throw new CommandError(`${spec.name} must be a number`);
+      if (spec.type === 'integer' && !Number.isInteger(value)) throw new CommandError(`${spec.name} must be a whole number`);
+      return value;
+    }
+    case 'player': {
+      const wanted = token.toLowerCase();
+      const player = ctx.getPlayers().find(p => p.name.toLowerCase() === wanted);
+      if (!player) throw new CommandError(`No player named "${token}" is here`);
+      return player;
+    }
+    case 'block': {
+      const block = parseBlock(token);
+      if (block === undefined) throw new CommandError(`Unknown block "${token}"`);
+      return block;
+    }
+    case 'word':
+      if (spec.choices && !spec.choices.includes(token.toLowerCase())) {
+        throw new CommandError(`${spec.name} must be one of ${spec.choices.join(', ')}`);
+      }
+      return spec.choices ? token.toLowerCase() : token;
+    case 'text':
+      return token;
+  }
+}
+
+interface Token {
+  value: string; // without its quotes
+  rest: string; // the line from this token on, as typed: what a text argument gets
+  quoted: boolean;
+  open: boolean; // a quote that isn't closed yet
+}
+
+function splitTokens(text: string): Token[] {
+  const line = text.replace(/^\//, '');
+  return Array.from(line.matchAll(/"([^"]*)("?)|\S+/g), match => ({
+    value: match[1] ?? match[0],
+    rest: line.slice(match.index).trimEnd(),
+    quoted: match[1] !== undefined,
+    open: match[1] !== undefined && match[2] === '',
+  }));
+}
+
+/** A value as it has to be typed as one command argument. */
+export function quoteCommandArg(value: string): string {
+  return /\s/.test(value) || value === '' ? `"${value}"` : value;
+}
+
+/** How many unquoted tokens from `start` spell out an online player's name, longest first; 1 if none do. */
+function playerTokenCount(ctx: CommandContext, tokens: Token[], start: number): number {
+  const names = new Set(ctx.getPlayers().map(p => p.name.toLowerCase()));
+  let end = start;
+  while (end < tokens.length && !tokens[end].quoted) end++;
+  for (let count = end - start; count > 1; count--) {
+    const name = tokens.slice(start, start + count).map(token => token.value).join(' ');
+    if (names.has(name.toLowerCase())) return count;
+  }
+  return 1;
+}
+
+export class CommandRegistry {
+  private commands: CommandDefinition[] = [];
+
+  /** Commands may share a name with different arguments; the first whose arguments parse runs. */
+  register(...commands: CommandDefinition[]): void {
+    this.commands.push(...commands);
+  }
+
+  /** Commands the role may run, for help listings. */
+  available(role: PlayerRole): CommandDefinition[] {
+    return this.commands.filter(command => hasRole(role, command.role));
+  }
+
+  /** Run a "/..." line, replying to the sender with any error. */
+  execute(ctx: CommandContext, text: string): void {
+    const tokens = splitTokens(text);
+    const { matches, argTokens } = this.match(tokens);
+    if (matches.length === 0) {
+      ctx.reply(`Unknown command "/${tokens.slice(0, 2).map(token => token.value).join(' ')}". Type /help for a list`);
+      return;
+    }
+
+    const allowed = matches.filter(command => hasRole(ctx.sender.role, command.role));
+    if (allowed.length === 0) {
+      ctx.reply(`Only ${matches[0].role === 'host' ? 'the host' : 'operators'} can use /${matches[0].name}`);
+      return;
+    }
+
+    let firstError: string | null = null;
+    for (const command of allowed) {
+      let args: Record<string, unknown>;
+      try {
+        args = this.parseArgs(ctx, command, argTokens);
+      } catch (err) {
+        if (!(err instanceof CommandError)) throw err;
+        firstError ??= err.message;
+        continue;
+      }
+
+      try {
+        command.run(ctx, args);
+      } catch (err) {
+        if (!(err instanceof CommandError)) throw err;
+        ctx.reply(err.message);
+      }
+      return;
+    }
+
+    const usages = allowed.map(formatUsage).join('  or  ');
+    ctx.reply(allowed.length === 1 ? `${firstError}. Usage: ${usages}` : `Usage: ${usages}`);
+  }
+
+  /** Completions for a partly typed line, offering only what the sender may run. */
+  complete(ctx: CommandContext, text: string): CommandHints {
+    const tokens = splitTokens(text);
+    const last = tokens[tokens.length - 1];
+    if (!last || (/\s$/.test(text) && !last.open)) tokens.push({ value: '', rest: '', quoted: false, open: false }); // completing a new token
+    const current = tokens[tokens.length - 1].value.toLowerCase();
+    const before = tokens.slice(0, -1);
+    const prefix = '/' + before.map(token => quoteCommandArg(token.value) + ' ').join('');
+
+    const commands = this.available(ctx.sender.role);
+    const candidates = new Set<string>();
+    let usage: string | null = null;
+
+    // Command name words
+    for (const command of commands) {
+      const words = command.name.split(' ');
+      if (before.length < words.length && before.every((token, i) => token.value.toLowerCase() === words[i])) {
+        const word = words[before.length];
+        if (word.startsWith(current)) candidates.add(word);
+      }
+    }
+
+    // Arguments of the commands already named
+    const { matches } = this.match(before);
+    const named = matches.filter(command => commands.includes(command));
+    if (named.length > 0) {
+      usage = named.map(formatUsage).join('  or  ');
+      for (const command of named) {
+        const spec = command.args[before.length - command.name.split(' ').length];
+        if (!spec) continue;
+        for (const option of this.argOptions(ctx, spec)) {
+          if (option.toLowerCase().startsWith(current)) candidates.add(option);
+        }
+      }
+    }
+
+    return { hints: Array.from(candidates).sort().map(candidate => prefix + quoteCommandArg(candidate)), usage };
+  }
+
+  private argOptions(ctx: CommandContext, spec: CommandArgSpec): string[] {
+    if (spec.type === 'player' || spec.suggestPlayers) return ctx.getPlayers().map(p => p.name);
+    if (spec.suggestClaims) return ctx.getClaims().map(claim => claim.name);
+    if (spec.type === 'block') return blockNames();
+    return [...(spec.choices ?? []), ...Object.keys(spec.keywords ?? {})];
+  }
+
+  /** Commands with the longest name the tokens start with, and the tokens left for arguments. */
+  private match(tokens: Token[]): { matches: CommandDefinition[]; argTokens: Token[] } {
+    let best: CommandDefinition[] = [];
+    let bestLength = 0;
+    for (const command of this.commands) {
+      const words = command.name.split(' ');
+      if (words.length < bestLength || words.length > tokens.length) continue;
+      if (!words.every((word, i) => tokens[i].value.toLowerCase() === word)) continue;
+      if (words.length > bestLength) {
+        best = [];
+        bestLength = words.length;
+      }
+      best.push(command);
+    }
+    return { matches: best, argTokens: tokens.slice(bestLength) };
+  }
+
+  private parseArgs(ctx: CommandContext, command: CommandDefinition, tokens: Token[]): Record<string, unknown> {
+    const args: Record<string, unknown> = {};
+    let next = 0;
+    for (const spec of command.args) {
+      if (next >= tokens.length) {
+        if (!spec.optional) throw new CommandError(`Missing ${spec.name}`);
+        continue;
+      }
+      if (spec.type === 'text') {
+        args[spec.name] = parseArg(ctx, spec, tokens[next].rest);
+        next = tokens.length;
+        continue;
+      }
+      const count = spec.type === 'player' ? playerTokenCount(ctx, tokens, next) : 1;
+      const token = tokens.slice(next, next + count).map(t => t.value).join(' ');
+      args[spec.name] = parseArg(ctx, spec, token);
+      next += count;
+    }
+    if (next < tokens.length) throw new CommandError('Too many arguments');
+    return args;
+  }
+}
@@ -6,6 +6,11 @@ export function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
 
+/** The shortest signed turn from angle a to angle b, in radians. */
+export function angleDifference(a: number, b: number): number {
+  return mod(b - a + Math.PI, Math.PI * 2) - Math.PI;
+}
+
 export function smoothstep(edge0: number, edge1: number, x: number): number {
   const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
   return t * t * (3 - 2 * t);
@@ -31,3 +36,22 @@ export function distance3D(x1: number, y1: number, z1: number, x2: number, y2: n
 export function randomInt(min: number, max: number): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
+
+/** A random world seed (positive 31-bit integer). */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2147483647);
+}
+
+/** Turn user-entered seed text into a world seed: integers are used as-is, anything else is hashed. */
+export function seedFromText(text: string): number {
+  const trimmed = text.trim();
+  if (/^-?\d+$/.test(trimmed)) {
+    const value = Number(trimmed);
+    if (Number.isSafeInteger(value)) return value | 0;
+  }
+  let hash = 0;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash = (Math.imul(hash, 31) + trimmed.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
@@ -0,0 +1,57 @@
+// Player dimensions, movement and limits, shared so the server can check what clients send.
+
+import { BlockType, BLOCK_PROPERTIES } from './BlockTypes.js';
+
+export const PLAYER_WIDTH = 0.6;
+export const PLAYER_HEIGHT = 1.8;
+export const EYE_HEIGHT = 1.6;
+export const MAX_REACH = 6; // blocks, measured from the eye
+
+export const WALK_SPEED = 5;
+export const SPRINT_SPEED = 8;
+export const GRAVITY = -20;
+export const TERMINAL_VELOCITY = -50;
+export const JUMP_IMPULSE = 8;
+export const MAX_JUMP_HEIGHT = (JUMP_IMPULSE * JUMP_IMPULSE) / (2 * -GRAVITY); // 1.6
+
+/** Check if a world-space AABB overlaps a player-sized body standing at (x, y, z). */
+export function overlapsBody(
+  x: number, y: number, z: number,
+  minX: number, minY: number, minZ: number,
+  maxX: number, maxY: number, maxZ: number,
+): boolean {
+  const halfWidth = PLAYER_WIDTH / 2;
+  return x - halfWidth < maxX && x + halfWidth > minX &&
+         y < maxY && y + PLAYER_HEIGHT > minY &&
+         z - halfWidth < maxZ && z + halfWidth > minZ;
+}
+
+/**
+ * Check if a player-sized body standing at (x, y, z) is inside a solid block.
+ * A positive margin shrinks the body on every side.
+ */
+export function bodyCollides(
+  x: number, y: number, z: number,
+  getBlock: (x: number, y: number, z: number) => number,
+  margin = 0,
+): boolean {
+  const halfWidth = PLAYER_WIDTH / 2 - margin;
+  const minX = Math.floor(x - halfWidth);
+  const maxX = Math.floor(x + halfWidth - 0.0001);
+  const minY = Math.floor(y + margin);
+  const maxY = Math.floor(y + PLAYER_HEIGHT - margin - 0.0001);
+  const minZ = Math.floor(z - halfWidth);
+  const maxZ = Math.floor(z + halfWidth - 0.0001);
+
+  for (let bx = minX; bx <= maxX; bx++) {
+    for (let by = minY; by <= maxY; by++) {
+      for (let bz = minZ; bz <= maxZ; bz++) {
+        const block = getBlock(bx, by, bz);
+        if (block !== BlockType.Air && BLOCK_PROPERTIES[block as BlockType]?.solid) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
@@ -0,0 +1,12 @@
+export const PLAYER_NAME_MIN_LENGTH = 2;
+export const PLAYER_NAME_MAX_LENGTH = 16;
+
+/** Why a player name (already trimmed) can't be used, or null if it can. Checked by the connection screen and the server. */
+export function checkPlayerName(name: string): string | null {
+  if (!name) return 'Please enter your name';
+  if (name.length < PLAYER_NAME_MIN_LENGTH) return `Name must be at least ${PLAYER_NAME_MIN_LENGTH} characters`;
+  if (name.length > PLAYER_NAME_MAX_LENGTH) return `Name must be at most ${PLAYER_NAME_MAX_LENGTH} characters`;
+  if (/[\u0000-\u001f\u007f]/.test(name)) return 'Name cannot contain control characters';
+  if (name.includes('"')) return 'Name cannot contain double quotes'; // they group command arguments
+  return null;
+}
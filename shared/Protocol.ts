@@ -1,5 +1,6 @@
 export enum MessageType {
   // Client -> Server
+  Hello = 'hello',
   JoinRoom = 'joinRoom',
   CreateRoom = 'createRoom',
   LeaveRoom = 'leaveRoom',
@@ -7,30 +8,187 @@ export enum MessageType {
   BlockUpdate = 'blockUpdate',
   PlayerUpdate = 'playerUpdate',
   ChatMessage = 'chatMessage',
+  Resume = 'resume',
+  CompleteCommand = 'completeCommand',
+  Ping = 'ping',
 
   // Server -> Client
+  Welcome = 'welcome',
+  Pong = 'pong',
   RoomJoined = 'roomJoined',
   RoomCreated = 'roomCreated',
   RoomError = 'roomError',
+  ProtocolError = 'protocolError',
   ChunkData = 'chunkData',
-  BlockChanged = 'blockChanged',
+  MultiBlockChange = 'multiBlockChange',
   PlayerJoined = 'playerJoined',
   PlayerLeft = 'playerLeft',
-  PlayerMoved = 'playerMoved',
+  PlayerEnteredView = 'playerEnteredView',
+  PlayerLeftView = 'playerLeftView',
   ChatBroadcast = 'chatBroadcast',
-  NpcUpdate = 'npcUpdate',
+  NpcInfo = 'npcInfo',
   WorldInfo = 'worldInfo',
+  PositionCorrection = 'positionCorrection',
+  BlockAck = 'blockAck',
+  Resumed = 'resumed',
+  ResumeFailed = 'resumeFailed',
+  PlayerStatus = 'playerStatus',
+  Kicked = 'kicked',
+  SystemNotice = 'systemNotice',
+  CommandHints = 'commandHints',
+  SelectSlot = 'selectSlot',
+  Claims = 'claims',
+}
+
+/** First byte of every binary WebSocket frame. */
+export enum BinaryMessageType {
+  ChunkData = 1,
+  Snapshot = 2, // player and NPC movement, see SnapshotCodec
+}
+
+/** Bumped whenever a message or frame changes shape; the server refuses clients on another version. */
+export const PROTOCOL_VERSION = 2;
+
+/** Capabilities a client announces in its Hello; the server answers with the ones both sides support. */
+export type ProtocolFeature =
+  | 'binaryChunks' // ChunkData as binary frames (ChunkCodec)
+  | 'binarySnapshots' // movement as binary snapshot frames (SnapshotCodec)
+  | 'chunkCompression'; // run-length encoded chunk payloads; raw ones otherwise
+
+export type RoomVisibility = 'public' | 'private'; // private rooms are only reachable by code
+
+export interface GameRules {
+  npcs: boolean; // NPCs live in the world
+  daylightCycle: boolean; // time of day advances
+}
+
+/** Chosen by the creator; see shared/RoomOptions for defaults and limits. */
+export interface RoomOptions {
+  name: string;
+  password: string; // empty for none
+  maxPlayers: number;
+  visibility: RoomVisibility;
+  rules: GameRules;
+}
+
+/** A room in the public list served at GET /api/rooms. */
+export interface RoomListing {
+  code: string;
+  name: string;
+  players: number; // 0 for saved rooms nobody is in
+  maxPlayers: number;
+  hasPassword: boolean;
+  rules: GameRules;
+}
+
+/** The creator is host; the host appoints operators. Both can moderate members. */
+export type PlayerRole = 'host' | 'operator' | 'member';
+
+export interface PlayerPermissions {
+  role: PlayerRole;
+  muted: boolean;
+  canBuild: boolean;
+}
+
+export type ModerationAction =
+  | 'kick'
+  | 'ban' // by identity, so it sticks across rejoins
+  | 'unban'
+  | 'mute'
+  | 'unmute'
+  | 'allowBuild'
+  | 'denyBuild'
+  | 'op' // host only
+  | 'deop'; // host only
+
+/** What a claim protects against; its owner and members are never stopped. */
+export interface ClaimFlags {
+  noBuild: boolean; // players can't place blocks
+  noBreak: boolean; // players can't break blocks
+  noNpcGather: boolean; // NPCs don't mine here
+  noNpcBuild: boolean; // NPCs don't build here
+}
+
+/** An axis-aligned box of blocks, bounds inclusive. */
+export interface BlockBox {
+  minX: number;
+  minY: number;
+  minZ: number;
+  maxX: number;
+  maxY: number;
+  maxZ: number;
+}
+
+export type ClaimAccess = 'owner' | 'member' | 'none';
+
+/** A protected region as one player sees it. */
+export interface ClaimSummary extends BlockBox {
+  name: string;
+  ownerName: string;
+  memberNames: string[];
+  flags: ClaimFlags;
+  access: ClaimAccess; // the receiving player's standing in the claim
+}
+
+/** Also describes players in a room's lists. */
+export interface PlayerSummary {
+  id: string;
+  entityId: number; // keys the player in snapshots
+  name: string;
+  role: PlayerRole;
+  x: number;
+  y: number;
+  z: number;
 }
 
 export interface JoinRoomMessage {
   type: MessageType.JoinRoom;
   roomCode: string;
   playerName: string;
+  identity: string; // stable per browser, keys the player's saved state in each room
+  password?: string;
 }
 
 export interface CreateRoomMessage {
   type: MessageType.CreateRoom;
   playerName: string;
+  identity: string;
+  roomCode?: string; // reopen a saved room instead of creating a new one
+  options?: Partial<RoomOptions>; // password is used to join when reopening
+}
+
+/** Sent when the player leaves on purpose, so the server doesn't wait for a resume. */
+export interface LeaveRoomMessage {
+  type: MessageType.LeaveRoom;
+}
+
+/**
+ * First message on every connection; nothing else is handled until the server answers with a Welcome.
+ * Its shape must never change, so that any server can read it well enough to refuse an incompatible client.
+ */
+export interface HelloMessage {
+  type: MessageType.Hello;
+  protocolVersion: number;
+  buildId: string; // which client build this is, for server logs
+  features: string[]; // ProtocolFeatures, plus any this server doesn't know yet
+}
+
+/** Sent on reconnect to take back the player left behind by a dropped connection. */
+export interface ResumeMessage {
+  type: MessageType.Resume;
+  sessionToken: string;
+}
+
+/** Ask for completions of a partly typed "/" command (chat lines starting with "/" run as commands). */
+export interface CompleteCommandMessage {
+  type: MessageType.CompleteCommand;
+  text: string;
+}
+
+/** Sent every few seconds to measure round-trip time; the server answers right away with a Pong. */
+export interface PingMessage {
+  type: MessageType.Ping;
+  time: number; // client clock in ms, echoed back in the Pong
 }
 
 export interface RequestChunkMessage {
@@ -42,6 +200,7 @@ export interface RequestChunkMessage {
 
 export interface BlockUpdateMessage {
   type: MessageType.BlockUpdate;
+  seq: number; // client sequence number, echoed in the BlockAck
   x: number;
   y: number;
   z: number;
@@ -55,6 +214,8 @@ export interface PlayerUpdateMessage {
   z: number;
   rx: number;
   ry: number;
+  slot: number; // selected hotbar slot
+  snapshotAck: number; // seq of the last snapshot received, the baseline for the next ones (0 for none)
 }
 
 export interface ChatMessageMessage {
@@ -62,12 +223,26 @@ export interface ChatMessageMessage {
   message: string;
 }
 
+/** Where a returning player resumes, restored from their saved record. */
+export interface PlayerSpawn {
+  x: number;
+  y: number;
+  z: number;
+  rx: number;
+  ry: number;
+  slot: number;
+}
+
 export interface RoomJoinedMessage {
   type: MessageType.RoomJoined;
   roomCode: string;
   playerId: string;
   seed: number;
-  players: Array<{ id: string; name: string; x: number; y: number; z: number }>;
+  players: PlayerSummary[];
+  spawn?: PlayerSpawn; // absent on a first visit: spawn at the world origin
+  sessionToken: string; // for Resume after a dropped connection
+  roomName: string;
+  permissions: PlayerPermissions;
 }
 
 export interface RoomCreatedMessage {
@@ -75,34 +250,110 @@ export interface RoomCreatedMessage {
   roomCode: string;
   playerId: string;
   seed: number;
+  sessionToken: string;
+  roomName: string;
+  permissions: PlayerPermissions;
+}
+
+/** The session was resumed: same player ID, back at the position the server last accepted. */
+export interface ResumedMessage {
+  type: MessageType.Resumed;
+  roomCode: string;
+  playerId: string;
+  players: PlayerSummary[]; // may have changed while away
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** The session is gone (grace period over or server restarted): join the room again instead. */
+export interface ResumeFailedMessage {
+  type: MessageType.ResumeFailed;
+  reason: string;
+}
+
+/** The Hello was accepted: the client may now create, join or resume. */
+export interface WelcomeMessage {
+  type: MessageType.Welcome;
+  protocolVersion: number;
+  buildId: string; // which server build this is
+  features: ProtocolFeature[]; // supported by both sides
+}
+
+export interface PongMessage {
+  type: MessageType.Pong;
+  time: number; // from the Ping
+  latencies: Record<string, number>; // round trip in ms by player ID, as the server measures it (0 until it has)
 }
 
 export interface RoomErrorMessage {
   type: MessageType.RoomError;
   error: string;
+  reload?: boolean; // the client is incompatible with this server: reloading the page is the fix
+}
+
+export type ProtocolErrorCode =
+  | 'tooLarge' // over MAX_CLIENT_MESSAGE_BYTES
+  | 'malformed' // not JSON text
+  | 'invalid'; // fails its schema in ProtocolSchema
+
+/** A message was refused before reaching the game; after too many the server closes the connection. */
+export interface ProtocolErrorMessage {
+  type: MessageType.ProtocolError;
+  code: ProtocolErrorCode;
+  error: string;
+  disconnecting: boolean; // this was the last one allowed
 }
 
+/** Sent as a binary frame (see ChunkCodec), never as JSON; this is the decoded form. */
 export interface ChunkDataMessage {
   type: MessageType.ChunkData;
   cx: number;
   cy: number;
   cz: number;
-  data: number[]; // Will be Uint8Array serialized
+  data: Uint8Array;
 }
 
-export interface BlockChangedMessage {
-  type: MessageType.BlockChanged;
+export interface BlockChange {
+  x: number;
+  y: number;
+  z: number;
+  blockType: number;
+}
+
+/**
+ * Blocks changed in one chunk by players, NPCs or rollbacks, coalesced over a server tick.
+ * An editor also gets its own changes back, after the BlockAck.
+ */
+export interface MultiBlockChangeMessage {
+  type: MessageType.MultiBlockChange;
+  cx: number;
+  cy: number;
+  cz: number;
+  blocks: number[]; // pairs of block index within the chunk (see blockIndex) and block type
+}
+
+/**
+ * Answer to a BlockUpdate. blockType is the block the server now has at that position:
+ * the requested one when accepted, the one to roll back to when rejected.
+ */
+export interface BlockAckMessage {
+  type: MessageType.BlockAck;
+  seq: number;
+  accepted: boolean;
   x: number;
   y: number;
   z: number;
   blockType: number;
-  playerId: string;
 }
 
+/** Joins and leaves go to the whole room; whether the player is near comes separately (PlayerEnteredView). */
 export interface PlayerJoinedMessage {
   type: MessageType.PlayerJoined;
   playerId: string;
+  entityId: number;
   playerName: string;
+  role: PlayerRole;
   x: number;
   y: number;
   z: number;
@@ -113,8 +364,9 @@ export interface PlayerLeftMessage {
   playerId: string;
 }
 
-export interface PlayerMovedMessage {
-  type: MessageType.PlayerMoved;
+/** Another player came within view distance: show it here, then follow it in snapshots. */
+export interface PlayerEnteredViewMessage {
+  type: MessageType.PlayerEnteredView;
   playerId: string;
   x: number;
   y: number;
@@ -123,37 +375,94 @@ export interface PlayerMovedMessage {
   ry: number;
 }
 
+/** Another player went out of view distance; it stays in the room. */
+export interface PlayerLeftViewMessage {
+  type: MessageType.PlayerLeftView;
+  playerId: string;
+}
+
 export interface ChatBroadcastMessage {
   type: MessageType.ChatBroadcast;
   playerId: string;
   playerName: string;
   message: string;
+  whisper?: boolean; // sent to this player only, with /msg
 }
 
-export interface NpcUpdateMessage {
-  type: MessageType.NpcUpdate;
-  npcs: Array<{
-    id: string;
-    name: string;
-    x: number;
-    y: number;
-    z: number;
-    rx: number;
-    ry: number;
-    action: string;
-    color: [number, number, number];
-  }>;
+/** What doesn't change about an NPC; where it is and what it's doing come in snapshots. */
+export interface NpcProfile {
+  entityId: number;
+  name: string;
+  color: [number, number, number];
+}
+
+/** NPCs that just came into the receiving player's view. */
+export interface NpcInfoMessage {
+  type: MessageType.NpcInfo;
+  npcs: NpcProfile[];
 }
 
 export interface WorldInfoMessage {
   type: MessageType.WorldInfo;
   seed: number;
   dayTime: number; // 0-1, 0 = midnight, 0.5 = noon
+  timeRunning: boolean; // false when the room's daylight cycle is off
+}
+
+/** Sent to a player whose movement the server refused: move back to this position. */
+export interface PositionCorrectionMessage {
+  type: MessageType.PositionCorrection;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** A player's role or restrictions changed; sent to the whole room. */
+export interface PlayerStatusMessage extends PlayerPermissions {
+  type: MessageType.PlayerStatus;
+  playerId: string;
+}
+
+/** Sent right before the server closes the connection of a kicked or banned player. */
+export interface KickedMessage {
+  type: MessageType.Kicked;
+  reason: string;
+}
+
+/** Server text for one player only (moderation results, refusals). */
+export interface SystemNoticeMessage {
+  type: MessageType.SystemNotice;
+  message: string;
+}
+
+/** Answer to CompleteCommand; text echoes the request so stale answers can be dropped. */
+export interface CommandHintsMessage {
+  type: MessageType.CommandHints;
+  text: string;
+  hints: string[]; // whole lines the text can be completed to
+  usage: string | null;
+}
+
+/** Switch the player's hotbar to a slot (e.g. /give). */
+export interface SelectSlotMessage {
+  type: MessageType.SelectSlot;
+  slot: number;
+}
+
+/** Every claim in the world; sent on join and whenever one changes. */
+export interface ClaimsMessage {
+  type: MessageType.Claims;
+  claims: ClaimSummary[];
 }
 
 export type ClientMessage =
+  | HelloMessage
   | JoinRoomMessage
   | CreateRoomMessage
+  | LeaveRoomMessage
+  | ResumeMessage
+  | CompleteCommandMessage
+  | PingMessage
   | RequestChunkMessage
   | BlockUpdateMessage
   | PlayerUpdateMessage
@@ -162,12 +471,25 @@ export type ClientMessage =
 export type ServerMessage =
   | RoomJoinedMessage
   | RoomCreatedMessage
+  | WelcomeMessage
+  | PongMessage
   | RoomErrorMessage
-  | ChunkDataMessage
-  | BlockChangedMessage
+  | ProtocolErrorMessage
+  | ResumedMessage
+  | ResumeFailedMessage
+  | BlockAckMessage
   | PlayerJoinedMessage
   | PlayerLeftMessage
-  | PlayerMovedMessage
+  | PlayerEnteredViewMessage
+  | PlayerLeftViewMessage
   | ChatBroadcastMessage
-  | NpcUpdateMessage
-  | WorldInfoMessage;
+  | NpcInfoMessage
+  | WorldInfoMessage
+  | PositionCorrectionMessage
+  | PlayerStatusMessage
+  | KickedMessage
+  | SystemNoticeMessage
+  | CommandHintsMessage
+  | SelectSlotMessage
+  | ClaimsMessage
+  | MultiBlockChangeMessage;
@@ -0,0 +1,173 @@
+import { MessageType, type ClientMessage } from './Protocol.js';
+import { CHUNK_SIZE, VERTICAL_CHUNKS } from './ChunkConstants.js';
+import { HOTBAR_BLOCKS } from './BlockTypes.js';
+import { MAX_PLAYERS_LIMIT, ROOM_NAME_MAX_LENGTH, ROOM_PASSWORD_MAX_LENGTH } from './RoomOptions.js';
+
+// Runtime checks for everything a client can send, one schema per ClientMessage type.
+// The server runs them before a message reaches any handler, so handlers can trust field types and ranges.
+
+export const MAX_CLIENT_MESSAGE_BYTES = 4096;
+export const CHAT_MESSAGE_MAX_LENGTH = 200;
+export const MAX_COORDINATE = 1_000_000; // blocks from the origin on any axis
+const MAX_CHUNK_COORDINATE = Math.ceil(MAX_COORDINATE / CHUNK_SIZE);
+const MAX_ANGLE = 1_000_000; // radians; clients don't wrap yaw
+const MAX_SEQ = 0xffffffff;
+const MAX_NAME_FIELD_LENGTH = 64; // raw player names; see PlayerNames for the rules applied after trimming
+const MAX_CODE_FIELD_LENGTH = 16;
+const MAX_TOKEN_LENGTH = 64;
+const MAX_FEATURES = 32;
+const MAX_FEATURE_LENGTH = 32;
+
+type FieldSchema =
+  | { kind: 'string'; maxLength: number; optional?: boolean }
+  | { kind: 'number'; integer: boolean; min: number; max: number; optional?: boolean }
+  | { kind: 'boolean'; optional?: boolean }
+  | { kind: 'enum'; values: readonly string[]; optional?: boolean }
+  | { kind: 'object'; fields: Record<string, FieldSchema>; optional?: boolean }
+  | { kind: 'list'; items: FieldSchema; maxItems: number; optional?: boolean };
+
+/** Every field of a message but its type, so a schema can't miss or invent one. */
+type MessageSchema<M> = { [K in Exclude<keyof M, 'type'>]-?: FieldSchema };
+
+type ClientMessageSchemas = {
+  [M in ClientMessage as M['type']]: MessageSchema<M>;
+};
+
+const string = (maxLength: number): FieldSchema => ({ kind: 'string', maxLength });
+const integer = (min: number, max: number): FieldSchema => ({ kind: 'number', integer: true, min, max });
+const number = (min: number, max: number): FieldSchema => ({ kind: 'number', integer: false, min, max });
+const boolean = (): FieldSchema => ({ kind: 'boolean' });
+const oneOf = (...values: string[]): FieldSchema => ({ kind: 'enum', values });
+const object = (fields: Record<string, FieldSchema>): FieldSchema => ({ kind: 'object', fields });
+const list = (items: FieldSchema, maxItems: number): FieldSchema => ({ kind: 'list', items, maxItems });
+const optional = (schema: FieldSchema): FieldSchema => ({ ...schema, optional: true });
+
+const blockCoordinate = integer(-MAX_COORDINATE, MAX_COORDINATE);
+const position = number(-MAX_COORDINATE, MAX_COORDINATE);
+const angle = number(-MAX_ANGLE, MAX_ANGLE);
+const chunkCoordinate = integer(-MAX_CHUNK_COORDINATE, MAX_CHUNK_COORDINATE);
+
+const CLIENT_MESSAGE_SCHEMAS: ClientMessageSchemas = {
+  // Features are free strings: newer clients may announce ones this server doesn't know
+  [MessageType.Hello]: {
+    protocolVersion: integer(0, 0xffff),
+    buildId: string(MAX_TOKEN_LENGTH),
+    features: list(string(MAX_FEATURE_LENGTH), MAX_FEATURES),
+  },
+  [MessageType.JoinRoom]: {
+    roomCode: string(MAX_CODE_FIELD_LENGTH),
+    playerName: string(MAX_NAME_FIELD_LENGTH),
+    identity: string(MAX_TOKEN_LENGTH),
+    password: optional(string(ROOM_PASSWORD_MAX_LENGTH)),
+  },
+  [MessageType.CreateRoom]: {
+    playerName: string(MAX_NAME_FIELD_LENGTH),
+    identity: string(MAX_TOKEN_LENGTH),
+    roomCode: optional(string(MAX_CODE_FIELD_LENGTH)),
+    options: optional(object({
+      name: optional(string(ROOM_NAME_MAX_LENGTH)),
+      password: optional(string(ROOM_PASSWORD_MAX_LENGTH)),
+      maxPlayers: optional(integer(1, MAX_PLAYERS_LIMIT)),
+      visibility: optional(oneOf('public', 'private')),
+      rules: optional(object({
+        npcs: optional(boolean()),
+        daylightCycle: optional(boolean()),
+      })),
+    })),
+  },
+  [MessageType.LeaveRoom]: {},
+  [MessageType.Resume]: {
+    sessionToken: string(MAX_TOKEN_LENGTH),
+  },
+  [MessageType.CompleteCommand]: {
+    text: string(CHAT_MESSAGE_MAX_LENGTH),
+  },
+  [MessageType.Ping]: {
+    time: number(0, Number.MAX_SAFE_INTEGER),
+  },
+  [MessageType.RequestChunk]: {
+    cx: chunkCoordinate,
+    cy: integer(0, VERTICAL_CHUNKS - 1),
+    cz: chunkCoordinate,
+  },
+  [MessageType.BlockUpdate]: {
+    seq: integer(0, MAX_SEQ),
+    x: blockCoordinate,
+    y: blockCoordinate,
+    z: blockCoordinate,
+    blockType: integer(0, 255),
+  },
+  [MessageType.PlayerUpdate]: {
+    x: position,
+    y: position,
+    z: position,
+    rx: angle,
+    ry: angle,
+    slot: integer(0, HOTBAR_BLOCKS.length - 1),
+    snapshotAck: integer(0, MAX_SEQ),
+  },
+  [MessageType.ChatMessage]: {
+    message: string(CHAT_MESSAGE_MAX_LENGTH),
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkField(path: string, schema: FieldSchema, value: unknown): string | null {
+  if (value === undefined) {
+    return schema.optional ? null : `${path} is missing`;
+  }
+
+  switch (schema.kind) {
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string`;
+      if (value.length > schema.maxLength) return `${path} is longer than ${schema.maxLength} characters`;
+      return null;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a finite number`;
+      if (schema.integer && !Number.isInteger(value)) return `${path} must be an integer`;
+      if (value < schema.min || value > schema.max) return `${path} must be between ${schema.min} and ${schema.max}`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be a boolean`;
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value)
+        ? null
+        : `${path} must be one of ${schema.values.join(', ')}`;
+    case 'object':
+      return isRecord(value) ? checkFields(`${path}.`, schema.fields, value) : `${path} must be an object`;
+    case 'list':
+      if (!Array.isArray(value)) return `${path} must be a list`;
+      if (value.length > schema.maxItems) return `${path} has more than ${schema.maxItems} items`;
+      for (let i = 0; i < value.length; i++) {
+        const reason = checkField(`${path}[${i}]`, schema.items, value[i]);
+        if (reason) return reason;
+      }
+      return null;
+  }
+}
+
+function checkFields(path: string, fields: Record<string, FieldSchema>, value: Record<string, unknown>): string | null {
+  for (const key of Object.keys(value)) {
+    if (!Object.hasOwn(fields, key) && !(path === '' && key === 'type')) {
+      return `unexpected field ${path}${key}`;
+    }
+  }
+  for (const [key, schema] of Object.entries(fields)) {
+    const reason = checkField(`${path}${key}`, schema, value[key]);
+    if (reason) return reason;
+  }
+  return null;
+}
+
+/** Why a parsed message isn't a valid ClientMessage, or null if it is. */
+export function checkClientMessage(value: unknown): string | null {
+  if (!isRecord(value)) return 'message must be a JSON object';
+  if (typeof value.type !== 'string' || !Object.hasOwn(CLIENT_MESSAGE_SCHEMAS, value.type)) {
+    return `unknown message type ${JSON.stringify(value.type)}`;
+  }
+  const fields = CLIENT_MESSAGE_SCHEMAS[value.type as ClientMessage['type']] as Record<string, FieldSchema>;
+  return checkFields('', fields, value);
+}
@@ -0,0 +1,8 @@
+import type { PlayerRole } from './Protocol.js';
+
+// Higher ranks can do everything lower ones can, and moderate them
+export const ROLE_RANK: Record<PlayerRole, number> = { host: 2, operator: 1, member: 0 };
+
+export function hasRole(role: PlayerRole, required: PlayerRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -0,0 +1,28 @@
+import type { GameRules, RoomOptions, RoomVisibility } from './Protocol.js';
+
+export const DEFAULT_MAX_PLAYERS = 8;
+export const MAX_PLAYERS_LIMIT = 16;
+export const ROOM_NAME_MAX_LENGTH = 32;
+export const ROOM_PASSWORD_MAX_LENGTH = 64;
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  npcs: true,
+  daylightCycle: true,
+};
+
+/** Fill in defaults and clamp whatever a client sent into valid room options. */
+export function normalizeRoomOptions(options: Partial<RoomOptions> | undefined, fallbackName: string): RoomOptions {
+  const name = typeof options?.name === 'string' ? options.name.trim().substring(0, ROOM_NAME_MAX_LENGTH) : '';
+  const password = typeof options?.password === 'string' ? options.password.substring(0, ROOM_PASSWORD_MAX_LENGTH) : '';
+  const maxPlayers = Number.isInteger(options?.maxPlayers)
+    ? Math.min(MAX_PLAYERS_LIMIT, Math.max(1, options!.maxPlayers!))
+    : DEFAULT_MAX_PLAYERS;
+  const visibility: RoomVisibility = options?.visibility === 'private' ? 'private' : 'public';
+
+  const rules = { ...DEFAULT_GAME_RULES };
+  for (const key of Object.keys(rules) as (keyof GameRules)[]) {
+    if (typeof options?.rules?.[key] === 'boolean') rules[key] = options.rules[key];
+  }
+
+  return { name: name || fallbackName, password, maxPlayers, visibility, rules };
+}
@@ -0,0 +1,279 @@
+import { BinaryMessageType } from './Protocol.js';
+
+// Player and NPC movement travels as binary snapshot frames: quantized positions and angles,
+// delta-encoded against a snapshot the client has acknowledged (PlayerUpdate.snapshotAck).
+//
+// Frame layout:
+//   u8  binary message type (BinaryMessageType.Snapshot)
+//   u8  format version
+//   u32 seq, u32 baseline seq (little-endian; baseline 0 = none, deltas against empty states)
+//   players section, then NPCs section:
+//     varint entry count, then per entry:
+//       varint entity ID, u8 field mask (see SnapshotField), then the masked fields in order:
+//       x, y, z: zigzag varint difference from the baseline
+//       rx, ry:  zigzag varint difference from the baseline, wrapped to one turn
+//       action:  u8 byte length + UTF-8
+//     varint removed count, then the removed entity IDs as varints
+//
+// An entity missing from the baseline is new and its fields are deltas against EMPTY_ENTITY_STATE.
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+export const SNAPSHOT_FRAME_HEADER_SIZE = 10;
+
+export const POSITION_SCALE = 64; // steps per block
+const ANGLE_STEPS = 65536; // steps per turn
+const MAX_ACTION_BYTES = 255;
+
+export enum SnapshotField {
+  X = 1 << 0,
+  Y = 1 << 1,
+  Z = 1 << 2,
+  Rx = 1 << 3,
+  Ry = 1 << 4,
+  Action = 1 << 5,
+}
+
+/** One entity in a snapshot; positions and angles are quantized (see quantizePosition, quantizeAngle). */
+export interface EntityState {
+  x: number;
+  y: number;
+  z: number;
+  rx: number;
+  ry: number;
+  action: string; // empty for players
+}
+
+/** Entities by entity ID. */
+export type EntityStates = Map<number, EntityState>;
+
+/** What a player has in view: players and NPCs have separate entity IDs. */
+export interface Snapshot {
+  players: EntityStates;
+  npcs: EntityStates;
+}
+
+export interface DecodedSnapshotFrame {
+  seq: number;
+  baselineSeq: number;
+  snapshot: Snapshot;
+}
+
+const EMPTY_ENTITY_STATE: EntityState = { x: 0, y: 0, z: 0, rx: 0, ry: 0, action: '' };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function emptySnapshot(): Snapshot {
+  return { players: new Map(), npcs: new Map() };
+}
+
+export function quantizePosition(value: number): number {
+  return Number.isFinite(value) ? Math.round(value * POSITION_SCALE) : 0;
+}
+
+export function dequantizePosition(value: number): number {
+  return value / POSITION_SCALE;
+}
+
+/** Wrap a step count into [-ANGLE_STEPS / 2, ANGLE_STEPS / 2). */
+function wrapAngleSteps(steps: number): number {
+  return ((((steps + ANGLE_STEPS / 2) % ANGLE_STEPS) + ANGLE_STEPS) % ANGLE_STEPS) - ANGLE_STEPS / 2;
+}
+
+export function quantizeAngle(radians: number): number {
+  return Number.isFinite(radians) ? wrapAngleSteps(Math.round((radians / (Math.PI * 2)) * ANGLE_STEPS)) : 0;
+}
+
+/** Radians in [-PI, PI). */
+export function dequantizeAngle(value: number): number {
+  return (value / ANGLE_STEPS) * Math.PI * 2;
+}
+
+export function toEntityState(x: number, y: number, z: number, rx: number, ry: number, action = ''): EntityState {
+  return {
+    x: quantizePosition(x),
+    y: quantizePosition(y),
+    z: quantizePosition(z),
+    rx: quantizeAngle(rx),
+    ry: quantizeAngle(ry),
+    action,
+  };
+}
+
+// Varints are written with arithmetic rather than bit shifts: quantized positions can exceed 32 bits.
+
+function writeVarint(out: number[], value: number): void {
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+}
+
+function writeSignedVarint(out: number[], value: number): void {
+  writeVarint(out, value >= 0 ? value * 2 : -value * 2 - 1);
+}
+
+function writeAction(out: number[], action: string): void {
+  const bytes = textEncoder.encode(action).subarray(0, MAX_ACTION_BYTES);
+  out.push(bytes.length, ...bytes);
+}
+
+class FrameReader {
+  offset: number;
+
+  constructor(private frame: Uint8Array, offset: number) {
+    this.offset = offset;
+  }
+
+  byte(): number {
+    if (this.offset >= this.frame.length) throw new Error('Truncated snapshot frame');
+    return this.frame[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      scale *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  signedVarint(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  action(): string {
+    const length = this.byte();
+    if (this.offset + length > this.frame.length) throw new Error('Truncated snapshot action');
+    const text = textDecoder.decode(this.frame.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return text;
+  }
+}
+
+function sameEntityStates(a: EntityStates, b: EntityStates): boolean {
+  if (a.size !== b.size) return false;
+  for (const [id, state] of a) {
+    const other = b.get(id);
+    if (!other || other.x !== state.x || other.y !== state.y || other.z !== state.z ||
+        other.rx !== state.rx || other.ry !== state.ry || other.action !== state.action) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function sameSnapshot(a: Snapshot, b: Snapshot): boolean {
+  return sameEntityStates(a.players, b.players) && sameEntityStates(a.npcs, b.npcs);
+}
+
+function encodeSection(out: number[], baseline: EntityStates, current: EntityStates): void {
+  const entries: number[] = [];
+  let entryCount = 0;
+  for (const [id, state] of current) {
+    const previous = baseline.get(id);
+    const base = previous ?? EMPTY_ENTITY_STATE;
+    let mask = 0;
+    if (state.x !== base.x) mask |= SnapshotField.X;
+    if (state.y !== base.y) mask |= SnapshotField.Y;
+    if (state.z !== base.z) mask |= SnapshotField.Z;
+    if (state.rx !== base.rx) mask |= SnapshotField.Rx;
+    if (state.ry !== base.ry) mask |= SnapshotField.Ry;
+    if (state.action !== base.action) mask |= SnapshotField.Action;
+    if (previous && mask === 0) continue;
+
+    entryCount++;
+    writeVarint(entries, id);
+    entries.push(mask);
+    if (mask & SnapshotField.X) writeSignedVarint(entries, state.x - base.x);
+    if (mask & SnapshotField.Y) writeSignedVarint(entries, state.y - base.y);
+    if (mask & SnapshotField.Z) writeSignedVarint(entries, state.z - base.z);
+    if (mask & SnapshotField.Rx) writeSignedVarint(entries, wrapAngleSteps(state.rx - base.rx));
+    if (mask & SnapshotField.Ry) writeSignedVarint(entries, wrapAngleSteps(state.ry - base.ry));
+    if (mask & SnapshotField.Action) writeAction(entries, state.action);
+  }
+
+  const removed = [...baseline.keys()].filter(id => !current.has(id));
+
+  writeVarint(out, entryCount);
+  out.push(...entries);
+  writeVarint(out, removed.length);
+  for (const id of removed) writeVarint(out, id);
+}
+
+function decodeSection(reader: FrameReader, baseline: EntityStates): EntityStates {
+  const states: EntityStates = new Map(baseline);
+
+  const entryCount = reader.varint();
+  for (let i = 0; i < entryCount; i++) {
+    const id = reader.varint();
+    const mask = reader.byte();
+    const base = states.get(id) ?? EMPTY_ENTITY_STATE;
+    states.set(id, {
+      x: mask & SnapshotField.X ? base.x + reader.signedVarint() : base.x,
+      y: mask & SnapshotField.Y ? base.y + reader.signedVarint() : base.y,
+      z: mask & SnapshotField.Z ? base.z + reader.signedVarint() : base.z,
+      rx: mask & SnapshotField.Rx ? wrapAngleSteps(base.rx + reader.signedVarint()) : base.rx,
+      ry: mask & SnapshotField.Ry ? wrapAngleSteps(base.ry + reader.signedVarint()) : base.ry,
+      action: mask & SnapshotField.Action ? reader.action() : base.action,
+    });
+  }
+
+  const removedCount = reader.varint();
+  for (let i = 0; i < removedCount; i++) {
+    states.delete(reader.varint());
+  }
+  return states;
+}
+
+/** Encode `current` as changes from `baseline`, the snapshot numbered baselineSeq. */
+export function encodeSnapshotFrame(seq: number, baselineSeq: number, baseline: Snapshot, current: Snapshot): Uint8Array {
+  const body: number[] = [];
+  encodeSection(body, baseline.players, current.players);
+  encodeSection(body, baseline.npcs, current.npcs);
+
+  const frame = new Uint8Array(SNAPSHOT_FRAME_HEADER_SIZE + body.length);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, BinaryMessageType.Snapshot);
+  view.setUint8(1, SNAPSHOT_FORMAT_VERSION);
+  view.setUint32(2, seq, true);
+  view.setUint32(6, baselineSeq, true);
+  frame.set(body, SNAPSHOT_FRAME_HEADER_SIZE);
+  return frame;
+}
+
+/** Decode a frame on top of its baseline, looked up by seq. Throws on malformed input or an unknown baseline. */
+export function decodeSnapshotFrame(
+  frame: Uint8Array,
+  baselineFor: (seq: number) => Snapshot | undefined,
+): DecodedSnapshotFrame {
+  if (frame.length < SNAPSHOT_FRAME_HEADER_SIZE) {
+    throw new Error('Snapshot frame too short');
+  }
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  if (view.getUint8(0) !== BinaryMessageType.Snapshot) {
+    throw new Error('Not a snapshot frame');
+  }
+  const version = view.getUint8(1);
+  if (version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot format version ${version}`);
+  }
+
+  const seq = view.getUint32(2, true);
+  const baselineSeq = view.getUint32(6, true);
+  const baseline = baselineSeq === 0 ? emptySnapshot() : baselineFor(baselineSeq);
+  if (!baseline) {
+    throw new Error(`Unknown snapshot baseline ${baselineSeq}`);
+  }
+
+  const reader = new FrameReader(frame, SNAPSHOT_FRAME_HEADER_SIZE);
+  const players = decodeSection(reader, baseline.players);
+  const npcs = decodeSection(reader, baseline.npcs);
+  return { seq, baselineSeq, snapshot: { players, npcs } };
+}
@@ -0,0 +1,8 @@
+export const DAY_LENGTH = 20 * 60; // seconds for a full day/night cycle
+export const START_DAY_TIME = 0.35; // new worlds start slightly after sunrise
+
+/** Advance a 0-1 day time (0 = midnight, 0.5 = noon) by dt seconds, wrapping past midnight. */
+export function advanceDayTime(dayTime: number, dt: number): number {
+  const t = (dayTime + dt / DAY_LENGTH) % 1;
+  return t < 0 ? t + 1 : t;
+}
@@ -3,6 +3,10 @@ import path from 'path';
 
 export default defineConfig({
   root: 'client',
+  define: {
+    // Sent in the protocol Hello so server logs show which build an incompatible client was running
+    __BUILD_ID__: JSON.stringify(process.env.BUILD_ID || new Date().toISOString()),
+  },
   resolve: {
     alias: {
       '@shared': path.resolve(__dirname, 'shared'),